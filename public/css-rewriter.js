@@ -0,0 +1,160 @@
+/**
+ * Wisp CSS Rewriter
+ *
+ * Finds the URLs in a stylesheet and passes each one through a callback:
+ * url() (including inside @font-face src and image-set()), @import strings,
+ * and the bare strings image-set() accepts. Comments and other strings are
+ * skipped, and everything that isn't rewritten is copied through unchanged.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispCssRewriter.
+ */
+
+(function (root) {
+  // Functions whose string arguments are URLs
+  const URL_STRING_FUNCTIONS = new Set(['image-set', '-webkit-image-set']);
+
+  const WHITESPACE = /[\t\n\f\r ]/;
+  const IDENT_CHAR = /[\w-]/;
+
+  /**
+   * Read a quoted string starting at `start` (the quote), returning the index after it
+   */
+  function readString(css, start) {
+    const quote = css[start];
+    let index = start + 1;
+
+    while (index < css.length && css[index] !== quote && css[index] !== '\n') {
+      // Skip escaped characters, including escaped quotes
+      index += css[index] === '\\' ? 2 : 1;
+    }
+
+    return Math.min(index + 1, css.length);
+  }
+
+  /**
+   * Read a url( ... ) token starting just after the '('
+   * Returns the span of the URL itself and the index after the ')'.
+   */
+  function readUrlToken(css, start) {
+    let index = start;
+    while (index < css.length && WHITESPACE.test(css[index])) index++;
+
+    const quote = css[index];
+    if (quote === '"' || quote === "'") {
+      const stringEnd = readString(css, index);
+      const close = css.indexOf(')', stringEnd);
+      return {
+        urlStart: index + 1,
+        urlEnd: stringEnd - 1,
+        end: close === -1 ? css.length : close + 1,
+      };
+    }
+
+    const urlStart = index;
+    while (index < css.length && css[index] !== ')') {
+      index += css[index] === '\\' ? 2 : 1;
+    }
+    let urlEnd = Math.min(index, css.length);
+    while (urlEnd > urlStart && WHITESPACE.test(css[urlEnd - 1])) urlEnd--;
+
+    return { urlStart, urlEnd, end: Math.min(index + 1, css.length) };
+  }
+
+  /**
+   * Rewrite every URL in a stylesheet (or a style attribute's declarations)
+   */
+  function rewriteCss(css, rewriteUrl) {
+    let output = '';
+    let position = 0;
+    let index = 0;
+
+    // Open functions, innermost last, and whether the last at-rule was @import
+    const functions = [];
+    let inImport = false;
+
+    const replace = (start, end) => {
+      const url = css.slice(start, end);
+      const rewritten = rewriteUrl(url);
+      if (rewritten !== url) {
+        output += css.slice(position, start) + rewritten;
+        position = end;
+      }
+    };
+
+    while (index < css.length) {
+      const char = css[index];
+
+      if (char === '/' && css[index + 1] === '*') {
+        const close = css.indexOf('*/', index + 2);
+        index = close === -1 ? css.length : close + 2;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const end = readString(css, index);
+        const inUrlFunction = URL_STRING_FUNCTIONS.has(functions[functions.length - 1]);
+        if ((inImport && functions.length === 0) || inUrlFunction) {
+          replace(index + 1, end - 1);
+        }
+        index = end;
+        continue;
+      }
+
+      if (char === '\\') {
+        index += 2;
+        continue;
+      }
+
+      if (char === '@') {
+        let end = index + 1;
+        while (end < css.length && IDENT_CHAR.test(css[end])) end++;
+        inImport = css.slice(index + 1, end).toLowerCase() === 'import';
+        index = end;
+        continue;
+      }
+
+      if (char === ';' || char === '{' || char === '}') {
+        inImport = false;
+        index++;
+        continue;
+      }
+
+      if (IDENT_CHAR.test(char) && (index === 0 || !IDENT_CHAR.test(css[index - 1]))) {
+        let end = index;
+        while (end < css.length && IDENT_CHAR.test(css[end])) end++;
+
+        if (css[end] === '(') {
+          const name = css.slice(index, end).toLowerCase();
+
+          if (name === 'url') {
+            const token = readUrlToken(css, end + 1);
+            replace(token.urlStart, token.urlEnd);
+            index = token.end;
+            continue;
+          }
+
+          functions.push(name);
+          index = end + 1;
+          continue;
+        }
+
+        index = end;
+        continue;
+      }
+
+      if (char === '(') {
+        functions.push('');
+      } else if (char === ')') {
+        functions.pop();
+      }
+      index++;
+    }
+
+    return output + css.slice(position);
+  }
+
+  root.WispCssRewriter = {
+    rewriteCss,
+  };
+})(self);
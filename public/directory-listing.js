@@ -0,0 +1,247 @@
+/**
+ * Wisp Directory Listing
+ *
+ * Renders the page served for a directory that has no index file: breadcrumbs,
+ * a table of entries with size, MIME type and CID, sortable columns and a
+ * filter box. Every name from the manifest is escaped, and links are relative
+ * to the site's <base>, so they resolve the same with or without a trailing
+ * slash on the directory URL.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispDirectoryListing. Sorting and filtering run in the page from
+ * enhanceListing's source, which the listing inlines with the page's script
+ * nonce (so they keep working in safe mode).
+ */
+
+(function (root) {
+  const HTML_ESCAPES = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+
+  /**
+   * Escape text for HTML content and quoted attribute values
+   */
+  function escapeHtml(value) {
+    return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+  }
+
+  /**
+   * Link to a site path, relative to the site's <base>
+   */
+  function siteHref(segments, isDirectory) {
+    if (segments.length === 0) {
+      return './';
+    }
+    return segments.map(encodeURIComponent).join('/') + (isDirectory ? '/' : '');
+  }
+
+  /**
+   * Human-readable file size
+   */
+  function formatSize(bytes) {
+    if (typeof bytes !== 'number' || !Number.isFinite(bytes)) {
+      return '';
+    }
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+  }
+
+  const STYLES = `
+    body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem 5rem; color: #1f2937; }
+    h1 { font-size: 1.25rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.5rem; word-break: break-all; }
+    nav ol { list-style: none; display: flex; flex-wrap: wrap; gap: 0.25rem; padding: 0; margin: 0 0 1rem; }
+    nav li + li::before { content: '/'; margin-right: 0.25rem; color: #9ca3af; }
+    a { color: #0066cc; text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    .controls { display: flex; align-items: center; gap: 1rem; margin-bottom: 0.75rem; }
+    input[type="search"] { flex: 1; max-width: 320px; padding: 0.4rem 0.6rem; border: 1px solid #d1d5db; border-radius: 6px; font: inherit; }
+    .count { color: #6b7280; font-size: 0.875rem; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+    th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #eee; }
+    th button { all: unset; cursor: pointer; font-weight: 600; }
+    th button:focus-visible { outline: 2px solid #0ea5e9; outline-offset: 2px; }
+    th[aria-sort="ascending"] button::after { content: ' \\25B2'; font-size: 0.7em; }
+    th[aria-sort="descending"] button::after { content: ' \\25BC'; font-size: 0.7em; }
+    td.name { word-break: break-all; }
+    td.size { white-space: nowrap; text-align: right; }
+    th.size { text-align: right; }
+    td.type, td.cid { color: #6b7280; }
+    td.cid code { font-size: 0.8rem; }
+    .empty { color: #6b7280; }
+  `;
+
+  /**
+   * Sorting and filtering for a rendered listing; runs in the page
+   * Only uses the page's globals, since its source is inlined into the listing.
+   */
+  function enhanceListing() {
+    const table = document.getElementById('wisp-listing');
+    const filter = document.getElementById('wisp-listing-filter');
+    const count = document.getElementById('wisp-listing-count');
+    if (!table || !filter || !count) return;
+
+    const tbody = table.tBodies[0];
+    const parentRow = tbody.querySelector('tr[data-kind="parent"]');
+    const rows = Array.from(tbody.querySelectorAll('tr[data-kind="dir"], tr[data-kind="file"]'));
+    const headers = Array.from(table.querySelectorAll('th[data-sort]'));
+    let sortKey = 'name';
+    let ascending = true;
+
+    const compare = (a, b) => {
+      // Directories stay above files whichever way the table is sorted
+      if (a.dataset.kind !== b.dataset.kind) return a.dataset.kind === 'dir' ? -1 : 1;
+
+      let result;
+      if (sortKey === 'size') {
+        result = Number(a.dataset.size || -1) - Number(b.dataset.size || -1);
+      } else {
+        result = (a.dataset[sortKey] || '').localeCompare(b.dataset[sortKey] || '', undefined, {
+          numeric: true,
+          sensitivity: 'base',
+        });
+      }
+      return ascending ? result : -result;
+    };
+
+    const update = () => {
+      const query = filter.value.trim().toLowerCase();
+      let shown = 0;
+
+      rows.sort(compare);
+      for (const row of rows) {
+        const visible = !query || row.dataset.name.toLowerCase().includes(query);
+        row.hidden = !visible;
+        if (visible) shown++;
+        tbody.append(row);
+      }
+      if (parentRow) tbody.prepend(parentRow);
+
+      for (const header of headers) {
+        header.setAttribute(
+          'aria-sort',
+          header.dataset.sort === sortKey ? (ascending ? 'ascending' : 'descending') : 'none'
+        );
+      }
+
+      count.textContent = query
+        ? `${shown} of ${rows.length} entries match`
+        : `${rows.length} ${rows.length === 1 ? 'entry' : 'entries'}`;
+    };
+
+    for (const header of headers) {
+      header.querySelector('button').addEventListener('click', () => {
+        ascending = header.dataset.sort === sortKey ? !ascending : true;
+        sortKey = header.dataset.sort;
+        update();
+      });
+    }
+
+    filter.addEventListener('input', update);
+    update();
+  }
+
+  /**
+   * Render the listing page for a directory of a site's manifest
+   * options: { siteName, segments (the directory's path), directory, nonce }
+   */
+  function renderDirectoryListing({ siteName, segments, directory, nonce }) {
+    const title = `Index of /${segments.map((segment) => segment + '/').join('')}`;
+    const dirs = Object.keys(directory.dirs || {}).sort();
+    const files = Object.entries(directory.files || {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const crumbs = [`<li><a href="./">${escapeHtml(siteName || 'site')}</a></li>`];
+    segments.forEach((segment, index) => {
+      crumbs.push(
+        index === segments.length - 1
+          ? `<li aria-current="page">${escapeHtml(segment)}</li>`
+          : `<li><a href="${escapeHtml(siteHref(segments.slice(0, index + 1), true))}">${escapeHtml(segment)}</a></li>`
+      );
+    });
+
+    const rows = [];
+    if (segments.length > 0) {
+      rows.push(
+        `<tr data-kind="parent"><td class="name"><a href="${escapeHtml(siteHref(segments.slice(0, -1), true))}">../</a></td><td class="size"></td><td class="type"></td><td class="cid"></td></tr>`
+      );
+    }
+
+    for (const name of dirs) {
+      const href = siteHref([...segments, name], true);
+      rows.push(
+        `<tr data-kind="dir" data-name="${escapeHtml(name)}" data-type="directory" data-cid="">` +
+          `<td class="name"><a href="${escapeHtml(href)}">${escapeHtml(name)}/</a></td>` +
+          `<td class="size"></td><td class="type">directory</td><td class="cid"></td></tr>`
+      );
+    }
+
+    for (const [name, file] of files) {
+      const href = siteHref([...segments, name], false);
+      const size = typeof file.size === 'number' ? String(file.size) : '';
+      const mimeType = file.mimeType || '';
+      const cid = file.cid || '';
+      rows.push(
+        `<tr data-kind="file" data-name="${escapeHtml(name)}" data-size="${escapeHtml(size)}" data-type="${escapeHtml(mimeType)}" data-cid="${escapeHtml(cid)}">` +
+          `<td class="name"><a href="${escapeHtml(href)}">${escapeHtml(name)}</a></td>` +
+          `<td class="size"${size ? ` title="${escapeHtml(size)} bytes"` : ''}>${escapeHtml(formatSize(file.size))}</td>` +
+          `<td class="type">${escapeHtml(mimeType)}</td>` +
+          `<td class="cid"><code title="${escapeHtml(cid)}">${escapeHtml(cid.length > 16 ? `${cid.slice(0, 8)}…${cid.slice(-6)}` : cid)}</code></td></tr>`
+      );
+    }
+
+    const entryCount = dirs.length + files.length;
+    const scriptTag = nonce ? `<script nonce="${escapeHtml(nonce)}">` : '<script>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <nav aria-label="Breadcrumb"><ol>${crumbs.join('')}</ol></nav>
+  <div class="controls">
+    <input type="search" id="wisp-listing-filter" placeholder="Filter by name" aria-label="Filter by name" aria-controls="wisp-listing">
+    <span class="count" id="wisp-listing-count" aria-live="polite">${entryCount} ${entryCount === 1 ? 'entry' : 'entries'}</span>
+  </div>
+  <table id="wisp-listing">
+    <thead>
+      <tr>
+        <th scope="col" data-sort="name" aria-sort="ascending"><button type="button">Name</button></th>
+        <th scope="col" class="size" data-sort="size" aria-sort="none"><button type="button">Size</button></th>
+        <th scope="col" data-sort="type" aria-sort="none"><button type="button">Type</button></th>
+        <th scope="col" data-sort="cid" aria-sort="none"><button type="button">CID</button></th>
+      </tr>
+    </thead>
+    <tbody>
+      ${rows.join('\n      ')}
+    </tbody>
+  </table>
+  ${entryCount === 0 ? '<p class="empty">This directory is empty.</p>' : ''}
+  ${scriptTag}(${enhanceListing.toString()})();</script>
+</body>
+</html>`;
+  }
+
+  root.WispDirectoryListing = {
+    escapeHtml,
+    formatSize,
+    enhanceListing,
+    renderDirectoryListing,
+  };
+})(self);
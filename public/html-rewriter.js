@@ -0,0 +1,471 @@
+/**
+ * Wisp HTML Rewriter
+ *
+ * A small HTML tokenizer and the rewriter the service worker runs over every
+ * page it serves. Pages are rewritten in a single pass over the tokens:
+ * URL-bearing attributes are passed through a URL callback, inline styles and
+ * <style> blocks through a CSS callback, and the <base> tag and overlay are
+ * inserted at fixed points. Everything that isn't rewritten is copied through
+ * byte for byte.
+ *
+ * The tokenizer yields tokens as it goes, but it works on the whole page as a
+ * string: the service worker reads each response in full before rewriting it,
+ * so pages are buffered rather than streamed.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispHtmlRewriter.
+ */
+
+(function (root) {
+  // Elements whose content is raw text: no tags inside until the matching end tag
+  const RAW_TEXT_ELEMENTS = new Set([
+    'script',
+    'style',
+    'textarea',
+    'title',
+    'xmp',
+    'iframe',
+    'noembed',
+    'noframes',
+  ]);
+
+  // Attributes holding a single URL, on any element
+  const URL_ATTRIBUTES = new Set([
+    'href',
+    'xlink:href',
+    'src',
+    'data-src',
+    'poster',
+    'action',
+    'formaction',
+    'cite',
+    'background',
+  ]);
+
+  // Attributes holding a single URL, only on specific elements
+  const ELEMENT_URL_ATTRIBUTES = {
+    object: ['data'],
+    html: ['manifest'],
+  };
+
+  // Attributes holding a srcset list
+  const SRCSET_ATTRIBUTES = new Set(['srcset', 'imagesrcset', 'data-srcset']);
+
+  const WHITESPACE = /[\t\n\f\r ]/;
+
+  /**
+   * Whether a character can start a tag name
+   */
+  function isAsciiAlpha(char) {
+    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z');
+  }
+
+  /**
+   * Find where a raw text element's content ends (the start of its end tag)
+   * The tag name is compared in place, so the page is never copied to lowercase it.
+   */
+  function findRawTextEnd(html, from, name) {
+    let index = from;
+
+    while ((index = html.indexOf('</', index)) !== -1) {
+      const candidate = html.slice(index + 2, index + 2 + name.length);
+      const next = html[index + name.length + 2];
+      if (
+        candidate.toLowerCase() === name &&
+        (next === undefined || next === '>' || next === '/' || WHITESPACE.test(next))
+      ) {
+        return index;
+      }
+      index += 2;
+    }
+
+    return html.length;
+  }
+
+  /**
+   * Read a tag starting at `start` (the '<'), including its attributes
+   * Attribute offsets point into the source so values can be replaced in place.
+   */
+  function readTag(html, start) {
+    const isEnd = html[start + 1] === '/';
+    let index = start + (isEnd ? 2 : 1);
+
+    const nameStart = index;
+    while (index < html.length && !WHITESPACE.test(html[index]) && html[index] !== '/' && html[index] !== '>') {
+      index++;
+    }
+    const name = html.slice(nameStart, index).toLowerCase();
+
+    const attrs = [];
+    let selfClosing = false;
+
+    while (index < html.length) {
+      const char = html[index];
+
+      if (char === '>') {
+        index++;
+        break;
+      }
+
+      if (WHITESPACE.test(char)) {
+        index++;
+        continue;
+      }
+
+      if (char === '/') {
+        selfClosing = html[index + 1] === '>';
+        index++;
+        continue;
+      }
+
+      // Attribute name (may start with '=')
+      const attrNameStart = index;
+      index++;
+      while (index < html.length && !WHITESPACE.test(html[index]) && !'/>='.includes(html[index])) {
+        index++;
+      }
+      const attr = {
+        name: html.slice(attrNameStart, index).toLowerCase(),
+        value: null,
+        valueStart: -1,
+        valueEnd: -1,
+        quote: null,
+      };
+      attrs.push(attr);
+
+      let lookahead = index;
+      while (lookahead < html.length && WHITESPACE.test(html[lookahead])) lookahead++;
+      if (html[lookahead] !== '=') {
+        continue;
+      }
+
+      // Attribute value: quoted values may contain '>', unquoted ones end at whitespace or '>'
+      index = lookahead + 1;
+      while (index < html.length && WHITESPACE.test(html[index])) index++;
+
+      const quote = html[index];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, index + 1);
+        const valueEnd = close === -1 ? html.length : close;
+        attr.quote = quote;
+        attr.valueStart = index + 1;
+        attr.valueEnd = valueEnd;
+        index = close === -1 ? html.length : close + 1;
+      } else {
+        attr.valueStart = index;
+        while (index < html.length && !WHITESPACE.test(html[index]) && html[index] !== '>') {
+          index++;
+        }
+        attr.valueEnd = index;
+      }
+      attr.value = html.slice(attr.valueStart, attr.valueEnd);
+    }
+
+    return {
+      type: isEnd ? 'endTag' : 'startTag',
+      name,
+      attrs: isEnd ? [] : attrs,
+      selfClosing,
+      start,
+      end: index,
+    };
+  }
+
+  /**
+   * Tokenize HTML into text, comment, doctype, startTag, endTag and rawText tokens
+   * Tokens carry start/end offsets into the source rather than copies of it.
+   */
+  function* tokenizeHtml(html) {
+    let index = 0;
+    let textStart = 0;
+
+    const flushText = function* (end) {
+      if (end > textStart) {
+        yield { type: 'text', start: textStart, end };
+      }
+    };
+
+    while (index < html.length) {
+      const lt = html.indexOf('<', index);
+      if (lt === -1) break;
+
+      const next = html[lt + 1];
+
+      if (html.startsWith('<!--', lt)) {
+        yield* flushText(lt);
+        const close = html.indexOf('-->', lt + 4);
+        const end = close === -1 ? html.length : close + 3;
+        yield { type: 'comment', start: lt, end };
+        index = textStart = end;
+        continue;
+      }
+
+      if (next === '!' || next === '?') {
+        // Doctype, CDATA or a bogus comment: runs to the next '>'
+        yield* flushText(lt);
+        const close = html.indexOf('>', lt + 2);
+        const end = close === -1 ? html.length : close + 1;
+        const isDoctype = html.slice(lt + 2, lt + 9).toLowerCase() === 'doctype';
+        yield { type: isDoctype ? 'doctype' : 'comment', start: lt, end };
+        index = textStart = end;
+        continue;
+      }
+
+      const isTag = isAsciiAlpha(next || '') || (next === '/' && isAsciiAlpha(html[lt + 2] || ''));
+      if (!isTag) {
+        // A stray '<' is just text
+        index = lt + 1;
+        continue;
+      }
+
+      yield* flushText(lt);
+      const tag = readTag(html, lt);
+      yield tag;
+      index = textStart = tag.end;
+
+      if (tag.type === 'startTag' && RAW_TEXT_ELEMENTS.has(tag.name) && !tag.selfClosing) {
+        const rawEnd = findRawTextEnd(html, index, tag.name);
+        if (rawEnd > index) {
+          yield { type: 'rawText', parent: tag.name, start: index, end: rawEnd };
+        }
+        index = textStart = rawEnd;
+      }
+    }
+
+    yield* flushText(html.length);
+  }
+
+  /**
+   * Rewrite a URL, keeping any leading and trailing whitespace
+   */
+  function rewriteUrlValue(value, rewriteUrl) {
+    const match = value.match(/^(\s*)(.*?)(\s*)$/s);
+    const rewritten = rewriteUrl(match[2]);
+    return rewritten === match[2] ? value : match[1] + rewritten + match[3];
+  }
+
+  /**
+   * Rewrite every URL in a srcset list, leaving descriptors and separators alone
+   * Follows the HTML spec's candidate parsing, so URLs may contain commas.
+   */
+  function rewriteSrcset(value, rewriteUrl) {
+    let output = '';
+    let index = 0;
+
+    while (index < value.length) {
+      // Whitespace and commas between candidates
+      const separatorStart = index;
+      while (index < value.length && (WHITESPACE.test(value[index]) || value[index] === ',')) {
+        index++;
+      }
+      output += value.slice(separatorStart, index);
+      if (index >= value.length) break;
+
+      // The URL runs to the next whitespace; trailing commas end the candidate
+      const urlStart = index;
+      while (index < value.length && !WHITESPACE.test(value[index])) index++;
+      let urlEnd = index;
+      while (urlEnd > urlStart && value[urlEnd - 1] === ',') urlEnd--;
+
+      output += rewriteUrl(value.slice(urlStart, urlEnd)) + value.slice(urlEnd, index);
+      if (urlEnd < index) continue;
+
+      // Descriptors run to the next comma (outside parentheses)
+      const descriptorStart = index;
+      let depth = 0;
+      while (index < value.length) {
+        const char = value[index];
+        if (char === '(') depth++;
+        if (char === ')') depth = Math.max(0, depth - 1);
+        if (char === ',' && depth === 0) break;
+        index++;
+      }
+      output += value.slice(descriptorStart, index);
+    }
+
+    return output;
+  }
+
+  /**
+   * Rewrite the URL in a <meta http-equiv="refresh"> content value
+   */
+  function rewriteMetaRefresh(content, rewriteUrl) {
+    const match = content.match(/^(\s*[\d.]*\s*[;,]?\s*(?:url\s*=\s*)?)(['"]?)(.*?)(\2\s*)$/is);
+    if (!match || !match[3]) {
+      return content;
+    }
+    return match[1] + match[2] + rewriteUrl(match[3]) + match[4];
+  }
+
+  /**
+   * Decode the character references that matter for quoting inside an attribute
+   */
+  function decodeQuotes(value) {
+    return value.replace(/&(?:quot|#34|#x22|apos|#39|#x27);/gi, (entity) =>
+      /quot|34|22/i.test(entity) ? '"' : "'"
+    );
+  }
+
+  /**
+   * Encode a rewritten value for the quoting the attribute uses
+   */
+  function encodeForQuote(value, quote) {
+    if (quote === "'") return value.replace(/'/g, '&#39;');
+    return value.replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Work out the new value for an attribute, or null to leave it alone
+   */
+  function rewriteAttribute(tag, attr, options) {
+    const { rewriteUrl, rewriteCss } = options;
+    const value = attr.value;
+
+    if (value === null) {
+      return null;
+    }
+
+    if (attr.name === 'style' && rewriteCss) {
+      const css = decodeQuotes(value);
+      const rewritten = rewriteCss(css);
+      return rewritten === css ? null : rewritten;
+    }
+
+    if (!rewriteUrl) {
+      return null;
+    }
+
+    if (SRCSET_ATTRIBUTES.has(attr.name)) {
+      return rewriteSrcset(value, rewriteUrl);
+    }
+
+    if (URL_ATTRIBUTES.has(attr.name) || ELEMENT_URL_ATTRIBUTES[tag.name]?.includes(attr.name)) {
+      return rewriteUrlValue(value, rewriteUrl);
+    }
+
+    if (tag.name === 'meta' && attr.name === 'content') {
+      const httpEquiv = tag.attrs.find((other) => other.name === 'http-equiv');
+      if (httpEquiv?.value?.trim().toLowerCase() === 'refresh') {
+        return rewriteMetaRefresh(value, rewriteUrl);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Re-emit a start tag with rewritten attribute values spliced in
+   */
+  function rewriteStartTag(html, tag, options) {
+    let output = '';
+    let position = tag.start;
+
+    for (const attr of tag.attrs) {
+      const rewritten = rewriteAttribute(tag, attr, options);
+      if (rewritten === null || rewritten === attr.value) continue;
+
+      output += html.slice(position, attr.valueStart);
+      if (attr.quote) {
+        output += encodeForQuote(rewritten, attr.quote);
+      } else if (/[\s"'=<>`]/.test(rewritten) || rewritten === '') {
+        // Unquoted values can't hold these, so quote the new value
+        output += `"${encodeForQuote(rewritten, '"')}"`;
+      } else {
+        output += rewritten;
+      }
+      position = attr.valueEnd;
+    }
+
+    return output + html.slice(position, tag.end);
+  }
+
+  /**
+   * Rewrite an HTML document
+   *
+   * Options:
+   * - rewriteUrl(url): new value for a URL-bearing attribute (return it unchanged to keep it)
+   * - rewriteCss(css): new text for a style attribute or <style> block
+   * - rewriteScript(text, type): new text for an inline <script>, given its lowercased type
+   *   attribute ('' when missing)
+   * - headHtml: inserted first thing in <head> (before any URL is resolved); existing
+   *   <base> tags are dropped so it can carry the document's base URL
+   * - bodyEndHtml: inserted before </body>, else before </html>, else at the end
+   */
+  function rewriteHtml(html, options = {}) {
+    const { headHtml = '', bodyEndHtml = '' } = options;
+    const output = [];
+    let headInserted = !headHtml;
+    let bodyEndInserted = !bodyEndHtml;
+    let lastStartTag = null;
+
+    const insertHead = () => {
+      if (!headInserted) {
+        output.push(headHtml);
+        headInserted = true;
+      }
+    };
+
+    for (const token of tokenizeHtml(html)) {
+      const raw = html.slice(token.start, token.end);
+
+      switch (token.type) {
+        case 'doctype':
+        case 'comment':
+          output.push(raw);
+          break;
+
+        case 'text':
+          // Leading whitespace stays before the <html> tag; anything else starts the document
+          if (!headInserted && raw.trim() !== '') insertHead();
+          output.push(raw);
+          break;
+
+        case 'startTag':
+          lastStartTag = token;
+          if (token.name === 'base') {
+            break;
+          }
+          if (token.name === 'head') {
+            output.push(rewriteStartTag(html, token, options));
+            insertHead();
+            break;
+          }
+          if (token.name !== 'html') insertHead();
+          output.push(rewriteStartTag(html, token, options));
+          break;
+
+        case 'endTag':
+          insertHead();
+          if (!bodyEndInserted && (token.name === 'body' || token.name === 'html')) {
+            output.push(bodyEndHtml);
+            bodyEndInserted = true;
+          }
+          output.push(raw);
+          break;
+
+        case 'rawText':
+          if (token.parent === 'style' && options.rewriteCss) {
+            output.push(options.rewriteCss(raw));
+          } else if (token.parent === 'script' && options.rewriteScript) {
+            const type = lastStartTag.attrs.find((attr) => attr.name === 'type');
+            output.push(options.rewriteScript(raw, (type?.value || '').trim().toLowerCase()));
+          } else {
+            output.push(raw);
+          }
+          break;
+      }
+    }
+
+    insertHead();
+    if (!bodyEndInserted) output.push(bodyEndHtml);
+
+    return output.join('');
+  }
+
+  root.WispHtmlRewriter = {
+    tokenizeHtml,
+    rewriteHtml,
+    rewriteSrcset,
+    rewriteMetaRefresh,
+  };
+})(self);
@@ -0,0 +1,317 @@
+/**
+ * Wisp JS Rewriter
+ *
+ * Rewrites module specifiers in JavaScript and the URLs in import maps, so
+ * root-relative imports stay inside the site's /wisp/ prefix instead of
+ * escaping to the explorer's root.
+ *
+ * JavaScript is scanned with a small tokenizer that knows about comments,
+ * strings, template literals and regular expressions; only the specifier
+ * strings of static `import` / `export ... from` statements and of
+ * `import("...")` calls with a literal argument are passed to the callback.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispJsRewriter.
+ */
+
+(function (root) {
+  // After these keywords a '/' starts a regular expression rather than a division
+  const REGEX_KEYWORDS = new Set([
+    'return',
+    'typeof',
+    'instanceof',
+    'in',
+    'of',
+    'new',
+    'delete',
+    'void',
+    'throw',
+    'case',
+    'do',
+    'else',
+    'yield',
+    'await',
+  ]);
+
+  const IDENT_START = /[A-Za-z_$\u0080-\uffff]/;
+  const IDENT_CHAR = /[\w$\u0080-\uffff]/;
+  const WHITESPACE = /\s/;
+
+  /**
+   * Read a quoted string starting at `start` (the quote), returning the index after it
+   */
+  function readString(js, start) {
+    const quote = js[start];
+    let index = start + 1;
+    while (index < js.length && js[index] !== quote && js[index] !== '\n') {
+      index += js[index] === '\\' ? 2 : 1;
+    }
+    return Math.min(index + 1, js.length);
+  }
+
+  /**
+   * Read a regular expression literal starting at `start` (the '/')
+   */
+  function readRegex(js, start) {
+    let index = start + 1;
+    let inClass = false;
+
+    while (index < js.length && js[index] !== '\n') {
+      const char = js[index];
+      if (char === '\\') {
+        index += 2;
+        continue;
+      }
+      if (char === '[') inClass = true;
+      else if (char === ']') inClass = false;
+      else if (char === '/' && !inClass) break;
+      index++;
+    }
+
+    index++;
+    while (index < js.length && IDENT_CHAR.test(js[index])) index++;
+    return Math.min(index, js.length);
+  }
+
+  /**
+   * Split JavaScript into identifier, string and punctuator tokens
+   * Comments, whitespace, template text and regular expressions are dropped.
+   */
+  function tokenizeJs(js) {
+    const tokens = [];
+    // '{' pushes 'brace'; '${' inside a template pushes 'template'
+    const braces = [];
+    let index = 0;
+
+    const lastToken = () => tokens[tokens.length - 1];
+
+    const regexAllowed = () => {
+      const last = lastToken();
+      if (!last) return true;
+      if (last.type === 'ident') return REGEX_KEYWORDS.has(last.value);
+      if (last.type === 'string' || last.type === 'template' || last.type === 'regex') return false;
+      return last.value !== ')' && last.value !== ']';
+    };
+
+    // Template text up to the closing backtick or the next '${'
+    const readTemplate = (start) => {
+      let position = start;
+      while (position < js.length) {
+        const char = js[position];
+        if (char === '\\') {
+          position += 2;
+          continue;
+        }
+        if (char === '`') {
+          tokens.push({ type: 'template', start, end: position + 1 });
+          return position + 1;
+        }
+        if (char === '$' && js[position + 1] === '{') {
+          braces.push('template');
+          tokens.push({ type: 'punct', value: '${', start: position, end: position + 2 });
+          return position + 2;
+        }
+        position++;
+      }
+      return js.length;
+    };
+
+    while (index < js.length) {
+      const char = js[index];
+
+      if (WHITESPACE.test(char)) {
+        index++;
+        continue;
+      }
+
+      if (char === '/' && js[index + 1] === '/') {
+        const newline = js.indexOf('\n', index);
+        index = newline === -1 ? js.length : newline;
+        continue;
+      }
+
+      if (char === '/' && js[index + 1] === '*') {
+        const close = js.indexOf('*/', index + 2);
+        index = close === -1 ? js.length : close + 2;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const end = readString(js, index);
+        tokens.push({ type: 'string', start: index, end });
+        index = end;
+        continue;
+      }
+
+      if (char === '`') {
+        index = readTemplate(index + 1);
+        continue;
+      }
+
+      if (char === '/' && regexAllowed()) {
+        const end = readRegex(js, index);
+        tokens.push({ type: 'regex', start: index, end });
+        index = end;
+        continue;
+      }
+
+      if (IDENT_START.test(char) || /[0-9]/.test(char)) {
+        let end = index + 1;
+        while (end < js.length && IDENT_CHAR.test(js[end])) end++;
+        tokens.push({ type: 'ident', value: js.slice(index, end), start: index, end });
+        index = end;
+        continue;
+      }
+
+      if (char === '{') {
+        braces.push('brace');
+      } else if (char === '}' && braces.pop() === 'template') {
+        index = readTemplate(index + 1);
+        continue;
+      }
+
+      tokens.push({ type: 'punct', value: char, start: index, end: index + 1 });
+      index++;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Find the specifier after an import/export clause: `... from "specifier"`
+   * Returns the string token, or null if the statement has no (static) specifier.
+   */
+  function findFromSpecifier(tokens, index) {
+    let depth = 0;
+
+    for (let i = index; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'punct') {
+        if (token.value === '{') depth++;
+        else if (token.value === '}') depth--;
+        else if (depth === 0 && token.value !== '*' && token.value !== ',') return null;
+        continue;
+      }
+
+      if (token.type === 'ident') {
+        if (depth === 0 && token.value === 'from' && tokens[i + 1]?.type === 'string') {
+          return tokens[i + 1];
+        }
+        // The next statement started without a specifier in between
+        if (depth === 0 && (token.value === 'import' || token.value === 'export')) return null;
+        continue;
+      }
+
+      // A string inside braces is an arbitrary module namespace name; elsewhere it ends the clause
+      if (token.type !== 'string' || depth === 0) return null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Rewrite module specifiers in JavaScript
+   */
+  function rewriteModuleSpecifiers(js, rewriteUrl) {
+    const tokens = tokenizeJs(js);
+    const specifiers = new Set();
+
+    tokens.forEach((token, i) => {
+      if (token.type !== 'ident' || (token.value !== 'import' && token.value !== 'export')) return;
+
+      // Skip property accesses like foo.import
+      const previous = tokens[i - 1];
+      if (previous?.type === 'punct' && previous.value === '.') return;
+
+      const next = tokens[i + 1];
+      if (!next) return;
+
+      if (token.value === 'import') {
+        if (next.type === 'string') {
+          specifiers.add(next);
+          return;
+        }
+        if (next.type === 'punct' && next.value === '(') {
+          const argument = tokens[i + 2];
+          const after = tokens[i + 3];
+          if (argument?.type === 'string' && after?.type === 'punct' && (after.value === ')' || after.value === ',')) {
+            specifiers.add(argument);
+          }
+          return;
+        }
+        if (next.type === 'punct' && next.value === '.') return; // import.meta
+      } else if (!(next.type === 'punct' && (next.value === '{' || next.value === '*'))) {
+        // export const/function/default etc. have no specifier
+        return;
+      }
+
+      const specifier = findFromSpecifier(tokens, i + 1);
+      if (specifier) specifiers.add(specifier);
+    });
+
+    let output = '';
+    let position = 0;
+    for (const token of [...specifiers].sort((a, b) => a.start - b.start)) {
+      const url = js.slice(token.start + 1, token.end - 1);
+      const rewritten = rewriteUrl(url);
+      if (rewritten === url) continue;
+      output += js.slice(position, token.start + 1) + rewritten;
+      position = token.end - 1;
+    }
+
+    return output + js.slice(position);
+  }
+
+  /**
+   * Rewrite the addresses in a specifier map: URL-like keys and every value
+   */
+  function rewriteSpecifierMap(map, rewriteUrl) {
+    const rewritten = {};
+    for (const [specifier, address] of Object.entries(map || {})) {
+      rewritten[rewriteUrl(specifier)] = typeof address === 'string' ? rewriteUrl(address) : address;
+    }
+    return rewritten;
+  }
+
+  /**
+   * Rewrite the URLs in an import map's JSON, leaving it alone if it doesn't parse
+   */
+  function rewriteImportMap(json, rewriteUrl) {
+    let importMap;
+    try {
+      importMap = JSON.parse(json);
+    } catch {
+      return json;
+    }
+    if (!importMap || typeof importMap !== 'object') {
+      return json;
+    }
+
+    const result = { ...importMap };
+    if (importMap.imports) {
+      result.imports = rewriteSpecifierMap(importMap.imports, rewriteUrl);
+    }
+    if (importMap.scopes) {
+      result.scopes = {};
+      for (const [scope, map] of Object.entries(importMap.scopes)) {
+        result.scopes[rewriteUrl(scope)] = rewriteSpecifierMap(map, rewriteUrl);
+      }
+    }
+    if (importMap.integrity) {
+      // Keys are URLs, values are hashes
+      result.integrity = {};
+      for (const [url, hash] of Object.entries(importMap.integrity)) {
+        result.integrity[rewriteUrl(url)] = hash;
+      }
+    }
+
+    return JSON.stringify(result, null, 2);
+  }
+
+  root.WispJsRewriter = {
+    tokenizeJs,
+    rewriteModuleSpecifiers,
+    rewriteImportMap,
+  };
+})(self);
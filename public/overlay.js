@@ -0,0 +1,466 @@
+/**
+ * Wisp Overlay
+ *
+ * The explorer toolbar shown on every page of a site served same-origin:
+ * the site name, handle and current path, plus a back link, reload from
+ * PDS, view source, copy permalink, a site switcher, a file tree and (in
+ * privacy mode) the page's privacy report. It lives in a shadow root so the
+ * site's styles can't reach it, and remembers whether it was collapsed.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispOverlay. The service worker inlines mountOverlay's source into
+ * each page (Function.prototype.toString), so mountOverlay must only use
+ * what is inside its own body and the page's globals.
+ */
+
+(function (root) {
+  /**
+   * Build the overlay in the current page
+   * config: { did, siteName, handle, base, safeMode, privacyMode }
+   */
+  function mountOverlay(config) {
+    const HOST_ID = 'wisp-overlay-host';
+    const COLLAPSED_KEY = 'wisp_overlay_collapsed';
+    const MESSAGE_TIMEOUT = 10000;
+    const PRIVACY_REPORT_INTERVAL = 2000;
+
+    if (!window.location.pathname.startsWith('/wisp/') || document.getElementById(HOST_ID)) {
+      return;
+    }
+
+    const STYLES = `
+      :host { all: initial; }
+      * { box-sizing: border-box; }
+      .overlay { position: fixed; bottom: 16px; left: 50%; transform: translateX(-50%); z-index: 2147483647; max-width: calc(100vw - 16px); font: 13px/1.4 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #374151; }
+      .toolbar { display: flex; align-items: center; gap: 4px; padding: 4px; background: rgba(255, 255, 255, .97); border: 1px solid rgba(0, 0, 0, .1); border-radius: 10px; box-shadow: 0 4px 12px rgba(0, 0, 0, .15); }
+      .info { display: flex; align-items: baseline; gap: 6px; min-width: 0; padding: 0 6px; }
+      .name { font-weight: 600; color: #111827; white-space: nowrap; }
+      .handle, .path { color: #6b7280; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 24ch; }
+      .path { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+      button, a.button { display: inline-flex; align-items: center; gap: 4px; padding: 5px 8px; border: 0; border-radius: 6px; background: transparent; color: inherit; font: inherit; text-decoration: none; cursor: pointer; white-space: nowrap; }
+      button:hover, a.button:hover, button[aria-expanded="true"] { background: #f3f4f6; color: #111827; }
+      button:focus-visible, a:focus-visible, input:focus-visible, pre:focus-visible, summary:focus-visible { outline: 2px solid #0ea5e9; outline-offset: 1px; }
+      button:disabled { opacity: .5; cursor: default; }
+      .badge { padding: 2px 8px; border-radius: 6px; background: #fef3c7; color: #92400e; border: 1px solid #fcd34d; font-size: 12px; font-weight: 600; white-space: nowrap; }
+      .separator { width: 1px; align-self: stretch; margin: 2px 2px; background: #e5e7eb; }
+      .expand { padding: 6px 12px; background: rgba(255, 255, 255, .97); border: 1px solid rgba(0, 0, 0, .1); border-radius: 10px; box-shadow: 0 4px 12px rgba(0, 0, 0, .15); font-weight: 600; }
+      .panel { position: absolute; bottom: calc(100% + 8px); left: 0; right: 0; min-width: min(420px, calc(100vw - 16px)); max-height: 60vh; overflow: auto; padding: 12px; background: #fff; border: 1px solid rgba(0, 0, 0, .1); border-radius: 10px; box-shadow: 0 6px 16px rgba(0, 0, 0, .2); }
+      .panel h2 { margin: 0 0 8px; font-size: 13px; font-weight: 600; color: #111827; }
+      .panel p { margin: 0; color: #6b7280; }
+      .panel ul { list-style: none; margin: 0; padding: 0 0 0 14px; }
+      .panel > ul { padding: 0; }
+      .panel li { margin: 2px 0; }
+      .panel a { color: #0369a1; text-decoration: none; }
+      .panel a:hover { text-decoration: underline; }
+      .panel a[aria-current] { font-weight: 600; color: #111827; }
+      .panel summary { cursor: pointer; }
+      .panel pre { margin: 0; padding: 8px; max-height: 50vh; overflow: auto; background: #f9fafb; border-radius: 6px; font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre-wrap; word-break: break-all; }
+      .panel table { border-collapse: collapse; width: 100%; }
+      .panel td { padding: 2px 6px; white-space: nowrap; }
+      .panel .blocked { color: #b91c1c; }
+      .muted { color: #6b7280; }
+      .error { color: #b91c1c; }
+      .visually-hidden { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+    `;
+
+    // Site-relative path of the current page, with query and hash
+    const sitePath = () => {
+      const pathname = window.location.pathname;
+      const relative = pathname.startsWith(config.base) ? pathname.slice(config.base.length) : '';
+      return relative + window.location.search + window.location.hash;
+    };
+
+    const decodePath = (path) => {
+      try {
+        return decodeURIComponent(path);
+      } catch {
+        return path;
+      }
+    };
+
+    const encodePath = (path) => path.split('/').map(encodeURIComponent).join('/');
+
+    const readCollapsed = () => {
+      try {
+        return window.localStorage.getItem(COLLAPSED_KEY) === '1';
+      } catch {
+        return false;
+      }
+    };
+
+    const writeCollapsed = (collapsed) => {
+      try {
+        window.localStorage.setItem(COLLAPSED_KEY, collapsed ? '1' : '0');
+      } catch {
+        // Storage can be unavailable; the overlay then starts expanded on each page
+      }
+    };
+
+    // Ask the service worker something and wait for its answer
+    const ask = (message) =>
+      new Promise((resolve, reject) => {
+        const controller = navigator.serviceWorker && navigator.serviceWorker.controller;
+        if (!controller) {
+          reject(new Error('The service worker is not controlling this page'));
+          return;
+        }
+
+        const channel = new MessageChannel();
+        const timer = setTimeout(() => {
+          channel.port1.close();
+          reject(new Error('Service worker message timeout'));
+        }, MESSAGE_TIMEOUT);
+
+        channel.port1.onmessage = (event) => {
+          clearTimeout(timer);
+          channel.port1.close();
+          resolve(event.data);
+        };
+
+        controller.postMessage(message, [channel.port2]);
+      });
+
+    const el = (tag, props, children) => {
+      const element = document.createElement(tag);
+      Object.assign(element, props || {});
+      for (const child of children || []) {
+        element.append(child);
+      }
+      return element;
+    };
+
+    const host = el('div', { id: HOST_ID });
+    const shadow = host.attachShadow({ mode: 'open' });
+    shadow.append(el('style', { textContent: STYLES }));
+
+    const overlay = el('div', { className: 'overlay' });
+    overlay.setAttribute('role', 'region');
+    overlay.setAttribute('aria-label', 'wisp.place explorer');
+    shadow.append(overlay);
+
+    const status = el('div', { className: 'visually-hidden' });
+    status.setAttribute('aria-live', 'polite');
+    overlay.append(status);
+
+    const announce = (text) => {
+      status.textContent = text;
+    };
+
+    // --- Panels: one open at a time, above the toolbar ---
+
+    let openPanel = null;
+
+    const closePanel = (restoreFocus) => {
+      if (!openPanel) return;
+      const { panel, button, onClose } = openPanel;
+      openPanel = null;
+      panel.remove();
+      button.setAttribute('aria-expanded', 'false');
+      if (onClose) onClose();
+      if (restoreFocus) button.focus();
+    };
+
+    const togglePanel = (button, title, render) => {
+      const wasOpen = openPanel && openPanel.button === button;
+      closePanel(false);
+      if (wasOpen) return;
+
+      const panel = el('div', { className: 'panel', id: `wisp-panel-${button.dataset.panel}` });
+      panel.setAttribute('role', 'dialog');
+      panel.setAttribute('aria-label', title);
+      panel.append(el('h2', { textContent: title }));
+      const body = el('div');
+      panel.append(body);
+      overlay.append(panel);
+      button.setAttribute('aria-expanded', 'true');
+
+      openPanel = { panel, button, onClose: null };
+      openPanel.onClose = render(body) || null;
+
+      const focusable = panel.querySelector('a, button, input, summary, pre');
+      if (focusable) focusable.focus();
+    };
+
+    const panelButton = (label, panelName, title, render) => {
+      const button = el('button', { type: 'button', textContent: label });
+      button.dataset.panel = panelName;
+      button.setAttribute('aria-expanded', 'false');
+      button.setAttribute('aria-controls', `wisp-panel-${panelName}`);
+      button.addEventListener('click', () => togglePanel(button, title, render));
+      return button;
+    };
+
+    const showMessage = (body, text, className) => {
+      body.textContent = '';
+      body.append(el('p', { className: className || 'muted', textContent: text }));
+    };
+
+    // File tree, built from the manifest's paths
+    const renderFiles = (body) => {
+      showMessage(body, 'Loading files...');
+      ask({ type: 'GET_SITE_FILES', did: config.did, siteName: config.siteName })
+        .then((response) => {
+          if (!response.success) throw new Error(response.error || 'Failed to list files');
+
+          const tree = { dirs: {}, files: [] };
+          for (const file of response.files) {
+            const segments = file.path.split('/');
+            const name = segments.pop();
+            let node = tree;
+            for (const segment of segments) {
+              node = node.dirs[segment] || (node.dirs[segment] = { dirs: {}, files: [] });
+            }
+            node.files.push({ name, path: file.path });
+          }
+
+          const current = decodePath(window.location.pathname.slice(config.base.length));
+
+          const renderNode = (node, prefix) => {
+            const list = el('ul');
+            for (const name of Object.keys(node.dirs).sort()) {
+              const path = prefix + name + '/';
+              const details = el('details', { open: current.startsWith(path) }, [
+                el('summary', { textContent: name + '/' }),
+                renderNode(node.dirs[name], path),
+              ]);
+              list.append(el('li', {}, [details]));
+            }
+            for (const file of node.files.sort((a, b) => a.name.localeCompare(b.name))) {
+              const link = el('a', { href: config.base + encodePath(file.path), textContent: file.name });
+              if (file.path === current || (current === '' && file.path === 'index.html')) {
+                link.setAttribute('aria-current', 'page');
+              }
+              list.append(el('li', {}, [link]));
+            }
+            return list;
+          };
+
+          body.textContent = '';
+          body.append(renderNode(tree, ''));
+        })
+        .catch((error) => showMessage(body, error.message, 'error'));
+    };
+
+    // Sites loaded in the service worker
+    const renderSites = (body) => {
+      showMessage(body, 'Loading sites...');
+      ask({ type: 'GET_STATUS' })
+        .then((response) => {
+          const list = el('ul');
+          for (const site of response.sites || []) {
+            const link = el('a', {
+              href: `/wisp/${site.did}/${site.siteName}/`,
+              textContent: site.siteName,
+            });
+            if (site.did === config.did && site.siteName === config.siteName) {
+              link.setAttribute('aria-current', 'page');
+            }
+            list.append(
+              el('li', {}, [link, el('span', { className: 'muted', textContent: ` ${site.handle ? '@' + site.handle : site.did}` })])
+            );
+          }
+          list.append(el('li', {}, [el('a', { href: '/', textContent: 'Load another site...' })]));
+
+          body.textContent = '';
+          body.append(list);
+        })
+        .catch((error) => showMessage(body, error.message, 'error'));
+    };
+
+    // The page's file as stored on the PDS, before the explorer rewrote it
+    const renderSource = (body) => {
+      showMessage(body, 'Loading source...');
+      const path = decodePath(window.location.pathname.slice(config.base.length));
+      ask({ type: 'GET_SOURCE', did: config.did, siteName: config.siteName, path })
+        .then((response) => {
+          if (!response.success) throw new Error(response.error || 'Failed to load source');
+
+          const pre = el('pre', { tabIndex: 0, textContent: response.text });
+          pre.setAttribute('aria-label', `Source of ${response.path}`);
+          body.textContent = '';
+          body.append(el('p', { className: 'muted', textContent: `${response.path} (${response.mimeType})` }), pre);
+          pre.focus();
+        })
+        .catch((error) => showMessage(body, error.message, 'error'));
+    };
+
+    // Origins this page contacted, refreshed while the panel is open
+    const renderPrivacyReport = (body) => {
+      const refresh = () =>
+        ask({ type: 'GET_PRIVACY_REPORT' })
+          .then((response) => {
+            const report = response.report;
+            if (!report || report.origins.length === 0) {
+              showMessage(body, 'This page has not contacted any other origin.');
+              return;
+            }
+
+            const table = el('table');
+            for (const entry of report.origins) {
+              const row = table.insertRow();
+              row.insertCell().textContent = entry.origin;
+              row.insertCell().textContent = `${entry.requests} ${entry.requests === 1 ? 'request' : 'requests'}`;
+              const blocked = row.insertCell();
+              if (entry.blocked > 0) {
+                blocked.textContent = `${entry.blocked} blocked`;
+                blocked.className = 'blocked';
+              }
+            }
+            body.textContent = '';
+            body.append(table);
+          })
+          .catch((error) => showMessage(body, error.message, 'error'));
+
+      showMessage(body, 'Loading report...');
+      refresh();
+      const timer = setInterval(refresh, PRIVACY_REPORT_INTERVAL);
+      return () => clearInterval(timer);
+    };
+
+    // --- Toolbar ---
+
+    const pathLabel = el('span', { className: 'path' });
+    const updatePath = () => {
+      const path = '/' + decodePath(sitePath());
+      pathLabel.textContent = path;
+      pathLabel.title = path;
+    };
+    updatePath();
+    window.addEventListener('popstate', updatePath);
+    window.addEventListener('hashchange', updatePath);
+
+    const info = el('span', { className: 'info' }, [el('span', { className: 'name', textContent: config.siteName })]);
+    if (config.handle) {
+      info.append(el('span', { className: 'handle', textContent: '@' + config.handle }));
+    }
+    info.append(pathLabel);
+
+    const backLink = el('a', { className: 'button', href: '/', textContent: '← Resolver' });
+    backLink.title = 'Back to Resolver';
+
+    const reloadButton = el('button', { type: 'button', textContent: 'Reload' });
+    reloadButton.title = 'Fetch the site from its PDS again';
+    reloadButton.addEventListener('click', () => {
+      // The explorer refetches the manifest; the service worker only takes it from there
+      const params = new URLSearchParams({ handle: config.did, site: config.siteName, path: sitePath(), reload: '1' });
+      reloadButton.disabled = true;
+      announce('Reloading from PDS...');
+      window.location.assign(`/?${params}`);
+    });
+
+    const copyButton = el('button', { type: 'button', textContent: 'Copy link' });
+    copyButton.title = 'Copy a permalink to this page';
+    copyButton.addEventListener('click', () => {
+      const permalink = config.handle
+        ? `${window.location.origin}/@${config.handle}/${config.siteName}/${sitePath()}`
+        : window.location.href;
+
+      const copied = navigator.clipboard
+        ? navigator.clipboard.writeText(permalink)
+        : Promise.reject(new Error('Clipboard unavailable'));
+
+      copied
+        .then(() => {
+          copyButton.textContent = 'Copied';
+          announce('Permalink copied');
+          setTimeout(() => {
+            copyButton.textContent = 'Copy link';
+          }, 2000);
+        })
+        .catch(() => {
+          window.prompt('Permalink to this page:', permalink);
+        });
+    });
+
+    const collapseButton = el('button', { type: 'button', textContent: '▾' });
+    collapseButton.setAttribute('aria-label', 'Collapse toolbar');
+
+    const toolbar = el('div', { className: 'toolbar' }, [backLink, el('span', { className: 'separator' }), info]);
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.setAttribute('aria-label', 'Site tools');
+
+    if (config.safeMode) {
+      const badge = el('span', { className: 'badge', textContent: 'Safe mode' });
+      badge.title = 'Site scripts, third-party frames and forms are blocked';
+      toolbar.append(badge);
+    }
+
+    toolbar.append(
+      el('span', { className: 'separator' }),
+      panelButton('Files', 'files', 'Files', renderFiles),
+      panelButton('Sites', 'sites', 'Loaded sites', renderSites),
+      panelButton('Source', 'source', 'Page source', renderSource),
+      reloadButton,
+      copyButton
+    );
+
+    if (config.privacyMode && config.privacyMode !== 'off') {
+      const title = config.privacyMode === 'block'
+        ? 'Third-party requests (blocked)'
+        : 'Third-party requests (logged)';
+      toolbar.append(panelButton('Privacy', 'privacy', title, renderPrivacyReport));
+    }
+
+    toolbar.append(collapseButton);
+
+    const expandButton = el('button', { type: 'button', className: 'expand', textContent: 'wisp' });
+    expandButton.setAttribute('aria-label', `Show explorer toolbar for ${config.siteName}`);
+    expandButton.setAttribute('aria-expanded', 'false');
+
+    const setCollapsed = (collapsed, moveFocus) => {
+      closePanel(false);
+      toolbar.hidden = collapsed;
+      expandButton.hidden = !collapsed;
+      writeCollapsed(collapsed);
+      if (moveFocus) (collapsed ? expandButton : collapseButton).focus();
+    };
+
+    collapseButton.addEventListener('click', () => setCollapsed(true, true));
+    expandButton.addEventListener('click', () => setCollapsed(false, true));
+    overlay.append(toolbar, expandButton);
+    setCollapsed(readCollapsed(), false);
+
+    // Escape closes the open panel; arrow keys move between toolbar buttons
+    overlay.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape' && openPanel) {
+        event.preventDefault();
+        closePanel(true);
+        return;
+      }
+
+      if ((event.key === 'ArrowLeft' || event.key === 'ArrowRight') && toolbar.contains(event.target)) {
+        const items = Array.from(toolbar.querySelectorAll('a, button')).filter((item) => !item.disabled);
+        const index = items.indexOf(event.target);
+        if (index === -1) return;
+        event.preventDefault();
+        const next = event.key === 'ArrowRight' ? index + 1 : index - 1;
+        items[(next + items.length) % items.length].focus();
+      }
+    });
+
+    // Clicks outside the overlay close its panel
+    document.addEventListener('click', (event) => {
+      if (openPanel && !event.composedPath().includes(host)) closePanel(false);
+    });
+
+    // Root-relative links added by scripts after the page was rewritten
+    document.addEventListener('click', (event) => {
+      const link = event.target instanceof Element ? event.target.closest('a') : null;
+      if (!link || event.defaultPrevented) return;
+
+      const href = link.getAttribute('href');
+      if (!href || !href.startsWith('/') || href.startsWith('//') || href.startsWith('/wisp/')) return;
+      if ((link.target && link.target !== '_self') || link.hasAttribute('download')) return;
+
+      event.preventDefault();
+      window.location.href = config.base + href.replace(/^\//, '');
+    });
+
+    const attach = () => document.body.append(host);
+    document.readyState === 'loading' ? document.addEventListener('DOMContentLoaded', attach) : attach();
+  }
+
+  root.WispOverlay = {
+    mountOverlay,
+  };
+})(self);
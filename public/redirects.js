@@ -0,0 +1,161 @@
+/**
+ * Wisp Redirects
+ *
+ * Parses Netlify-style _redirects files and matches request paths against
+ * their rules: :placeholders, a trailing * splat, query-param conditions and
+ * forced (!) rules. Applying a matched rule (redirecting, rewriting or serving
+ * a custom status page) is left to the service worker.
+ *
+ * Loaded into the service worker with importScripts(), which exposes it as
+ * self.WispRedirects.
+ */
+
+(function (root) {
+  // Statuses Response.redirect() accepts
+  const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+  /**
+   * Check whether a rule's status can be served
+   * Redirects need one of REDIRECT_STATUSES; rewrites and custom pages serve
+   * the target with a 200 or an error status.
+   */
+  function isSupportedStatus(status) {
+    return REDIRECT_STATUSES.has(status) || status === 200 || (status >= 400 && status <= 599);
+  }
+
+  /**
+   * Parse a Netlify-style _redirects file
+   *
+   * Each line is: from [query=:param ...] to [status[!]] [conditions...]
+   * Returns an array of rules in file order.
+   */
+  function parseRedirects(text) {
+    const rules = [];
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const tokens = line.split(/\s+/);
+      const from = tokens.shift();
+
+      // Query-param conditions come between `from` and `to`
+      const query = {};
+      while (tokens.length > 0 && tokens[0].includes('=') && !tokens[0].startsWith('/') && !tokens[0].includes('://')) {
+        const [key, value] = tokens.shift().split('=');
+        query[key] = value;
+      }
+
+      const to = tokens.shift();
+      if (!from || !to) {
+        console.warn('[Wisp SW] Skipping malformed _redirects line:', line);
+        continue;
+      }
+
+      let status = 301;
+      let force = false;
+      const statusMatch = tokens[0] && tokens[0].match(/^(\d{3})(!?)$/);
+      if (statusMatch) {
+        tokens.shift();
+        status = parseInt(statusMatch[1], 10);
+        force = statusMatch[2] === '!';
+      }
+
+      if (!isSupportedStatus(status)) {
+        console.warn('[Wisp SW] Skipping _redirects line with unsupported status:', line);
+        continue;
+      }
+
+      // Remaining tokens (Country=, Language=, Role=...) can't be evaluated here
+      if (tokens.length > 0) {
+        console.log('[Wisp SW] Ignoring unsupported _redirects conditions:', tokens.join(' '));
+      }
+
+      rules.push({ from, query, to, status, force });
+    }
+
+    return rules;
+  }
+
+  /**
+   * Check whether a rule redirects (rather than rewriting in place)
+   */
+  function isRedirectRule(rule) {
+    return REDIRECT_STATUSES.has(rule.status);
+  }
+
+  /**
+   * Strip a trailing slash (except for the root) so /foo and /foo/ match alike
+   */
+  function trimTrailingSlash(path) {
+    return path.length > 1 ? path.replace(/\/+$/, '') : path;
+  }
+
+  /**
+   * Match a request path and query against a redirect rule
+   * Returns the captured placeholders (including splat) or null.
+   */
+  function matchRedirectRule(rule, path, searchParams) {
+    const params = {};
+    const fromSegments = trimTrailingSlash(rule.from).split('/');
+    const pathSegments = trimTrailingSlash(path).split('/');
+
+    for (let i = 0; i < fromSegments.length; i++) {
+      const pattern = fromSegments[i];
+
+      if (pattern === '*' && i === fromSegments.length - 1) {
+        params.splat = pathSegments.slice(i).join('/');
+        break;
+      }
+
+      if (i >= pathSegments.length) {
+        return null;
+      }
+
+      if (pattern.startsWith(':')) {
+        try {
+          params[pattern.slice(1)] = decodeURIComponent(pathSegments[i]);
+        } catch {
+          // A malformed escape (e.g. %E0%A4) can't fill a placeholder
+          return null;
+        }
+      } else if (pattern !== pathSegments[i]) {
+        return null;
+      }
+
+      if (i === fromSegments.length - 1 && pathSegments.length > fromSegments.length) {
+        return null;
+      }
+    }
+
+    for (const [key, value] of Object.entries(rule.query)) {
+      if (!searchParams.has(key)) {
+        return null;
+      }
+      if (value.startsWith(':')) {
+        params[value.slice(1)] = searchParams.get(key);
+      } else if (searchParams.get(key) !== value) {
+        return null;
+      }
+    }
+
+    return params;
+  }
+
+  /**
+   * Substitute :placeholders and :splat into a redirect target
+   */
+  function expandRedirectTarget(to, params) {
+    return to.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (match, name) => {
+      // Leave ports in absolute URLs (e.g. https://host:8080) alone
+      return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : match;
+    });
+  }
+
+  root.WispRedirects = {
+    parseRedirects,
+    isRedirectRule,
+    matchRedirectRule,
+    expandRedirectTarget,
+  };
+})(self);
@@ -2,7 +2,8 @@
  * Wisp Service Worker
  *
  * Intercepts network requests and serves content from ATProto PDS
- * based on the current site's manifest.
+ * based on the manifest of the site named in each request's path.
+ * Several sites can be loaded at once.
  *
  * URL Pattern: /wisp/{did}/{siteName}/{path}
  *
@@ -17,28 +18,116 @@ try {
   console.warn('[Wisp SW] Failed to load pako:', error);
 }
 
+// HTML, CSS and JS rewriters (self.WispHtmlRewriter, self.WispCssRewriter, self.WispJsRewriter),
+// the page overlay (self.WispOverlay), directory listings (self.WispDirectoryListing)
+// and _redirects rules (self.WispRedirects)
+importScripts(
+  'html-rewriter.js',
+  'css-rewriter.js',
+  'js-rewriter.js',
+  'overlay.js',
+  'directory-listing.js',
+  'redirects.js'
+);
+
 const WISP_CACHE_NAME = 'wisp-manifest';
 const BLOB_CACHE_NAME = 'wisp-blobs';
-const MANIFEST_KEY = 'current-manifest';
-const SITE_INFO_KEY = 'site-info';
-
-// In-memory manifest for fast lookups
-let currentManifest = null;
-let currentSiteInfo = null;
-let pdsUrl = null;
-let did = null;
-let currentHandle = null;
-let currentSiteName = null;
+const SITE_KEY_PREFIX = 'site:';
+
+// Serving policy defaults, overridden by a site's place.wisp.settings record
+const DEFAULT_SITE_SETTINGS = {
+  directoryListing: true,
+  indexFiles: ['index.html', 'index.htm'],
+  cleanUrls: true,
+  headers: [],
+  // Chosen in the explorer rather than the settings record: serve pages with a CSP
+  // that blocks the site's scripts, third-party frames and form submissions
+  safeMode: false,
+  // Also chosen in the explorer: 'log' or 'block' requests pages make to other origins
+  privacyMode: 'off',
+};
+
+const PRIVACY_MODES = ['off', 'log', 'block'];
+// Pages whose third-party requests are kept for the privacy report
+const PRIVACY_REPORT_LIMIT = 50;
+
+// Script nonces of the pages we build, keyed by response, for applyContentPolicies
+// Kept out of the headers so a site's custom headers can't choose the nonce
+const scriptNonces = new WeakMap();
+
+// Blob cache limits; the budget can be changed with SET_CACHE_BUDGET and is persisted
+const MAX_CACHED_BLOB_SIZE = 5 * 1024 * 1024;
+const DEFAULT_CACHE_BUDGET = {
+  maxBytes: 250 * 1024 * 1024, // Upper bound for cached blobs
+  quotaFraction: 0.8, // Share of the origin's storage quota we let usage reach
+};
+// Eviction frees space down to this fraction of the budget, so it doesn't run on every store
+const CACHE_LOW_WATER_MARK = 0.9;
+// Access times closer together than this aren't written back
+const CACHE_TOUCH_INTERVAL = 60 * 1000;
+// Blobs downloaded at once when pinning a site for offline use
+const PIN_CONCURRENCY = 4;
+// Blob requests in flight per PDS; the rest wait in a queue
+const PDS_CONCURRENCY = 6;
+// Retries for blob requests, matching withRetry on the app side
+const RETRY_OPTIONS = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 10000,
+  backoffFactor: 2,
+};
+
+// In-memory sites for fast lookups, keyed by "{did}/{siteName}"
+// Each site: { manifest, pdsUrl, did, handle, siteName, spaFallback, settings, embedderOrigin, redirectRules,
+//              reportKey, privacyReport }
+// - spaFallback: serve the root index.html for unknown client-side routes
+// - reportKey, privacyReport: for sandboxed sites, the key the explorer sent to check the
+//   site's privacy report with, and that report (never persisted)
+// - redirectRules: parsed _redirects rules (null until loaded, never persisted)
+const sites = new Map();
+
+// Most recently loaded site, reported by GET_STATUS
+let lastSiteKey = null;
+
+// Messages that change which sites are loaded or how they're served; only the explorer sends them
+const STATE_CHANGING_MESSAGES = new Set([
+  'SET_MANIFEST',
+  'CLEAR_MANIFEST',
+  'CLEAR_CACHE',
+  'PIN_SITE',
+  'UNPIN_SITE',
+  'SET_CACHE_BUDGET',
+]);
+
+// Third-party requests made by pages of sites in privacy mode, keyed by client id
+// Each report: { pageUrl, mode, origins: Map(origin -> { requests, blocked }) }
+const privacyReports = new Map();
 
 // IndexedDB for persistent storage
 let db = null;
 
+// Cache budget (loaded from IndexedDB on first use) and eviction totals since startup
+let cacheBudget = null;
+let evicting = null;
+const evictionTotals = { blobs: 0, bytes: 0 };
+
+// Sites currently being pinned, keyed like `sites`
+const pinning = new Set();
+
+// Blob downloads in flight, keyed by CID: { promise (raw bytes), siteKey }
+// Requests for a blob that's already on its way share the download, then each
+// decodes it with its own file's encoding metadata.
+const inflightBlobs = new Map();
+
+// Request slots per PDS URL: { active, waiting: [resolve] }
+const pdsQueues = new Map();
+
 /**
  * Initialize IndexedDB
  */
 async function initDB() {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('WispCache', 1);
+    const request = indexedDB.open('WispCache', 3);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
@@ -52,68 +141,118 @@ async function initDB() {
       // Create object stores
       if (!database.objectStoreNames.contains('manifests')) {
         database.createObjectStore('manifests');
+      } else if (event.oldVersion < 2) {
+        // Version 1 kept a single 'current-manifest'; sites are now keyed individually
+        event.target.transaction.objectStore('manifests').clear();
       }
       if (!database.objectStoreNames.contains('blobs')) {
         database.createObjectStore('blobs');
+      } else if (event.oldVersion < 3) {
+        // Blobs cached before version 3 have no metadata and could never be evicted
+        event.target.transaction.objectStore('blobs').clear();
+      }
+      if (!database.objectStoreNames.contains('blobMeta')) {
+        // { cid, size, lastAccess, sites: [siteKey], pinnedBy: [siteKey] } for each cached blob
+        const metaStore = database.createObjectStore('blobMeta', { keyPath: 'cid' });
+        metaStore.createIndex('lastAccess', 'lastAccess');
+      }
+      if (!database.objectStoreNames.contains('config')) {
+        database.createObjectStore('config');
       }
     };
   });
 }
 
 /**
- * Store manifest in IndexedDB
+ * Get the key for a site
  */
-async function storeManifest(manifest) {
+function getSiteKey(siteDid, siteName) {
+  return `${siteDid}/${siteName}`;
+}
+
+/**
+ * Store a site (manifest and site info) in IndexedDB
+ */
+async function storeSite(site) {
   if (!db) await initDB();
+  const { redirectRules: _derived, reportKey: _key, privacyReport: _report, ...persisted } = site;
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(['manifests'], 'readwrite');
     const store = transaction.objectStore('manifests');
-    const request = store.put(manifest, MANIFEST_KEY);
+    const request = store.put(persisted, SITE_KEY_PREFIX + getSiteKey(site.did, site.siteName));
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
 
 /**
- * Get manifest from IndexedDB
+ * Get a site from IndexedDB
  */
-async function getManifest() {
+async function getStoredSite(siteKey) {
   if (!db) await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(['manifests'], 'readonly');
     const store = transaction.objectStore('manifests');
-    const request = store.get(MANIFEST_KEY);
+    const request = store.get(SITE_KEY_PREFIX + siteKey);
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
 /**
- * Store site info in IndexedDB
+ * Delete a site from IndexedDB, or every site when no key is given
  */
-async function storeSiteInfo(siteInfo) {
+async function deleteStoredSites(siteKey) {
   if (!db) await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(['manifests'], 'readwrite');
     const store = transaction.objectStore('manifests');
-    const request = store.put(siteInfo, SITE_INFO_KEY);
+    const request = siteKey ? store.delete(SITE_KEY_PREFIX + siteKey) : store.clear();
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
 
 /**
- * Get site info from IndexedDB
+ * Get a loaded site, falling back to IndexedDB after a service worker restart
  */
-async function getSiteInfo() {
-  if (!db) await initDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['manifests'], 'readonly');
-    const store = transaction.objectStore('manifests');
-    const request = store.get(SITE_INFO_KEY);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+async function getSite(siteDid, siteName) {
+  const siteKey = getSiteKey(siteDid, siteName);
+
+  if (sites.has(siteKey)) {
+    return sites.get(siteKey);
+  }
+
+  console.log('[Wisp SW] Site not in memory, trying IndexedDB:', siteKey);
+  const stored = await getStoredSite(siteKey);
+  if (!stored) {
+    return null;
+  }
+
+  const site = {
+    ...stored,
+    settings: { ...DEFAULT_SITE_SETTINGS, ...stored.settings },
+    redirectRules: null,
+  };
+  sites.set(siteKey, site);
+  console.log('[Wisp SW] Loaded from IndexedDB:', { did: site.did, siteName: site.siteName, pdsUrl: site.pdsUrl });
+  return site;
+}
+
+/**
+ * Public site info (everything except the manifest and derived state)
+ */
+function getSiteInfo(site) {
+  return {
+    pdsUrl: site.pdsUrl,
+    did: site.did,
+    handle: site.handle,
+    siteName: site.siteName,
+    spaFallback: site.spaFallback,
+    safeMode: !!site.settings.safeMode,
+    privacyMode: site.settings.privacyMode,
+    settings: site.settings,
+  };
 }
 
 /**
@@ -131,63 +270,77 @@ function normalizePath(path) {
 }
 
 /**
- * Look up a file in the manifest by path
+ * Find a manifest entry for a path segment, which may still be percent-encoded
+ * Returns the name the entry is stored under, or null.
+ */
+function findManifestName(entries, segment) {
+  if (!entries) {
+    return null;
+  }
+  if (Object.hasOwn(entries, segment)) {
+    return segment;
+  }
+  try {
+    const decoded = decodeURIComponent(segment);
+    return Object.hasOwn(entries, decoded) ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up a file in a site's manifest by path
  */
-function lookupFile(manifest, path) {
+function lookupFile(site, path) {
   const normalized = normalizePath(path);
 
   // Empty path - try index files
   if (normalized === '') {
-    const indexFiles = ['index.html', 'index.htm'];
+    const indexFiles = site.settings.indexFiles;
     for (const indexFile of indexFiles) {
-      const result = lookupFile(manifest, indexFile);
+      const result = lookupFile(site, indexFile);
       if (result) return result;
     }
     return null;
   }
 
   const segments = normalized.split('/');
-  let current = manifest;
+  let current = site.manifest;
 
   // Navigate through directories
   for (let i = 0; i < segments.length - 1; i++) {
-    const segment = segments[i];
-    if (!current.dirs || !current.dirs[segment]) {
+    const name = findManifestName(current.dirs, segments[i]);
+    if (name === null) {
       return null;
     }
-    current = current.dirs[segment];
+    current = current.dirs[name];
   }
 
   // Look up the file
-  const filename = segments[segments.length - 1];
-  const file = current.files?.[filename];
-
-  if (!file) {
-    return null;
-  }
-
-  return file;
+  const filename = findManifestName(current.files, segments[segments.length - 1]);
+  return filename === null ? null : current.files[filename];
 }
 
 /**
  * Look up an index file in a directory
  * Returns the file entry if found, null otherwise
  */
-function lookupIndexFile(manifest, dirPath) {
+function lookupIndexFile(site, dirPath) {
   const normalized = normalizePath(dirPath);
   const segments = normalized.split('/').filter(Boolean);
-  let current = manifest;
+  let current = site.manifest;
 
   // Navigate to the directory
   for (const segment of segments) {
-    if (!current.dirs || !current.dirs[segment]) {
+    const name = findManifestName(current.dirs, segment);
+    if (name === null) {
       return null; // Not a valid directory path
     }
-    current = current.dirs[segment];
+    current = current.dirs[name];
   }
 
   // Try to find index files in this directory
-  const indexFiles = ['index.html', 'index.htm'];
+  const indexFiles = site.settings.indexFiles;
   for (const indexFile of indexFiles) {
     if (current.files && current.files[indexFile]) {
       return current.files[indexFile];
@@ -238,90 +391,244 @@ function guessMimeType(filename) {
 }
 
 /**
- * Fetch blob from PDS
+ * Decode base64 text into bytes
  */
-async function fetchBlobFromPDS(cid, mimeType) {
-  if (!pdsUrl || !did) {
-    throw new Error('PDS or DID not configured');
+function decodeBase64(bytes) {
+  const binaryString = atob(new TextDecoder().decode(bytes).trim());
+  const decoded = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    decoded[i] = binaryString.charCodeAt(i);
   }
+  return decoded;
+}
 
-  // Check cache first
-  const cached = await getBlob(cid);
-  if (cached) {
-    return new Response(cached, {
-      headers: {
-        'Content-Type': mimeType || guessMimeType(cid),
-        'Cache-Control': 'public, max-age=3600',
-        'X-Wisp-Cache': 'HIT',
-      },
-    });
+/**
+ * Decode blob bytes using the file's encoding metadata from the record
+ */
+async function decodeWithMetadata(bytes, file) {
+  let data = bytes;
+
+  if (file.base64) {
+    data = decodeBase64(data);
   }
 
-  // Fetch from PDS
-  const url = `${pdsUrl}/xrpc/com.atproto.sync.getBlob?did=${did}&cid=${cid}`;
-  const response = await fetch(url);
+  if (file.encoding === 'gzip') {
+    data = await decompressGzip(data);
+  } else if (file.encoding && file.encoding !== 'identity') {
+    throw new Error(`Unsupported encoding '${file.encoding}'`);
+  }
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch blob: ${response.status} ${response.statusText}`);
+  return data;
+}
+
+/**
+ * Decode blob bytes by sniffing the content (legacy records without metadata)
+ */
+async function decodeBySniffing(bytes) {
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    // Raw gzip (gzip without base64 encoding)
+    return decompressGzip(bytes);
   }
 
-  // Get the raw data
- const rawArrayBuffer = await response.arrayBuffer();
-  const bytes = new Uint8Array(rawArrayBuffer);
+  // Check if it's the legacy base64-encoded gzip format
+  const textContent = new TextDecoder().decode(bytes);
+  if (textContent.match(/^[A-Za-z0-9+/]+={0,2}$/) && textContent.length > 50) {
+    const b64Bytes = decodeBase64(bytes);
+    if (b64Bytes[0] === 0x1f && b64Bytes[1] === 0x8b) {
+      return decompressGzip(b64Bytes);
+    }
+    return b64Bytes;
+  }
 
-  let decompressedData;
+  // Plain uncompressed data
+  return bytes;
+}
 
-  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
-    // Raw gzip (new format: gzip without base64 encoding)
+/**
+ * Check whether a manifest file entry carries encoding metadata
+ * (set for every new-format record, absent for legacy ones)
+ */
+function hasEncodingMetadata(file) {
+  return file.base64 !== undefined || file.encoding !== undefined;
+}
+
+/**
+ * Sleep for a specified duration
+ */
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a failed blob request is worth retrying: network errors, 5xx and 429
+ */
+function shouldRetryBlobRequest(error) {
+  if (error instanceof TypeError) {
+    return true;
+  }
+  return typeof error.status === 'number' && (error.status >= 500 || error.status === 429);
+}
+
+/**
+ * Run a request, retrying with exponential backoff
+ */
+async function withRetry(fn) {
+  const { maxAttempts, initialDelay, maxDelay, backoffFactor } = RETRY_OPTIONS;
+
+  for (let attempt = 0; ; attempt++) {
     try {
-      decompressedData = await decompressGzip(bytes);
+      return await fn();
     } catch (error) {
-      console.error('[Wisp SW] Failed to decompress gzip data:', error);
-      throw new Error(`Failed to decompress blob data for CID ${cid}: ${error.message}`);
+      const isLastAttempt = attempt === maxAttempts - 1;
+      if (isLastAttempt || !shouldRetryBlobRequest(error)) {
+        throw error;
+      }
+
+      const delay = Math.min(initialDelay * Math.pow(backoffFactor, attempt), maxDelay);
+      console.warn(`[Wisp SW] Retry attempt ${attempt + 1}/${maxAttempts} after ${delay}ms`, error);
+      await sleep(delay);
     }
+  }
+}
+
+/**
+ * Run a request once the PDS has a free slot
+ * Small self-hosted PDSes rate-limit us if a page asks for dozens of blobs at once.
+ */
+async function withPdsSlot(pdsUrl, fn) {
+  let queue = pdsQueues.get(pdsUrl);
+  if (!queue) {
+    queue = { active: 0, waiting: [] };
+    pdsQueues.set(pdsUrl, queue);
+  }
+
+  if (queue.active < PDS_CONCURRENCY) {
+    queue.active++;
   } else {
-    // Check if it's the legacy base64-encoded gzip format
-    const textContent = new TextDecoder().decode(rawArrayBuffer);
-    if (textContent.match(/^[A-Za-z0-9+/]+={0,2}$/) && textContent.length > 50) {
-      const binaryString = atob(textContent);
-      const b64Bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        b64Bytes[i] = binaryString.charCodeAt(i);
-      }
+    await new Promise((resolve) => queue.waiting.push(resolve));
+  }
 
-      if (b64Bytes[0] === 0x1f && b64Bytes[1] === 0x8b) {
-        try {
-          decompressedData = await decompressGzip(b64Bytes);
-        } catch (error) {
-          console.error('[Wisp SW] Failed to decompress gzip data:', error);
-          throw new Error(`Failed to decompress blob data for CID ${cid}: ${error.message}`);
-        }
-      } else {
-        decompressedData = b64Bytes;
-      }
-    } else {
-      // Plain uncompressed data
-      decompressedData = bytes;
+  try {
+    return await fn();
+  } finally {
+    const next = queue.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next request
+      next();
+    } else if (--queue.active === 0) {
+      pdsQueues.delete(pdsUrl);
     }
   }
+}
+
+/**
+ * Download a blob's raw bytes from the PDS
+ * Each attempt takes a PDS slot of its own, so a request backing off after a 429
+ * doesn't hold a slot the site's other requests could use.
+ */
+async function downloadBlob(site, cid) {
+  const { pdsUrl, did } = site;
+
+  const url = `${pdsUrl}/xrpc/com.atproto.sync.getBlob?did=${did}&cid=${cid}`;
+  return withRetry(() =>
+    withPdsSlot(pdsUrl, async () => {
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const error = new Error(`Failed to fetch blob: ${response.status} ${response.statusText}`);
+        error.status = response.status;
+        throw error;
+      }
+
+      // Get the raw data
+      return new Uint8Array(await response.arrayBuffer());
+    })
+  );
+}
+
+/**
+ * Decode a downloaded blob using its file's metadata
+ */
+async function decodeBlob(bytes, file) {
+  const { cid, mimeType } = file;
+
+  let decompressedData;
+  try {
+    decompressedData = hasEncodingMetadata(file)
+      ? await decodeWithMetadata(bytes, file)
+      : await decodeBySniffing(bytes);
+  } catch (error) {
+    console.error('[Wisp SW] Failed to decode blob data:', error);
+    throw new Error(`Failed to decode blob data for CID ${cid}: ${error.message}`);
+  }
 
   // Create blob from decompressed data
   if (decompressedData === undefined) {
     throw new Error(`Failed to decode blob data for CID: ${cid}`);
   }
 
-  const blob = new Blob([decompressedData], { type: mimeType || guessMimeType(cid) });
+  return new Blob([decompressedData], { type: mimeType || guessMimeType(cid) });
+}
+
+/**
+ * Fetch blob from PDS
+ * With options.pin, the blob is cached whatever its size and pinned for the site.
+ */
+async function fetchBlobFromPDS(site, file, options = {}) {
+  const { cid, mimeType } = file;
+  const { pdsUrl, did } = site;
+
+  if (!pdsUrl || !did) {
+    throw new Error('PDS or DID not configured');
+  }
+
+  const siteKey = getSiteKey(did, site.siteName);
+
+  // Check cache first
+  const cached = await getBlob(cid, siteKey, options.pin);
+  if (cached) {
+    return new Response(cached, {
+      headers: {
+        'Content-Type': mimeType || guessMimeType(cid),
+        'Cache-Control': 'public, max-age=3600',
+        'X-Wisp-Cache': 'HIT',
+      },
+    });
+  }
+
+  // Fetch from PDS, sharing the download with any request for the same blob
+  let inflight = inflightBlobs.get(cid);
+  const isOwner = !inflight;
+  if (isOwner) {
+    inflight = {
+      promise: downloadBlob(site, cid).finally(() => inflightBlobs.delete(cid)),
+      siteKey,
+    };
+    inflightBlobs.set(cid, inflight);
+  }
+
+  const blob = await decodeBlob(await inflight.promise, file);
 
-  // Cache the blob (limit to 5MB to avoid quota issues)
-  if (blob.size <= 5 * 1024 * 1024) {
-    await storeBlob(cid, blob);
+  // Cache the blob (large blobs would crowd everything else out). The request
+  // that started the download stores it; others only add their site or pin.
+  const needsStore = isOwner || options.pin || inflight.siteKey !== siteKey;
+  if (needsStore && (blob.size <= MAX_CACHED_BLOB_SIZE || options.pin)) {
+    try {
+      await storeBlob(cid, blob, siteKey, options.pin);
+    } catch (error) {
+      // A full cache shouldn't stop the page from being served
+      console.warn('[Wisp SW] Failed to cache blob:', cid, error);
+    }
+    enforceCacheBudget().catch((error) => {
+      console.warn('[Wisp SW] Cache eviction failed:', error);
+    });
   }
 
   return new Response(blob, {
     headers: {
       'Content-Type': mimeType || guessMimeType(cid),
       'Cache-Control': 'public, max-age=3600',
-      'X-Wisp-Cache': 'MISS',
+      'X-Wisp-Cache': isOwner ? 'MISS' : 'SHARED',
     },
   });
 }
@@ -373,223 +680,711 @@ async function decompressGzip(compressedBytes) {
 }
 
 /**
- * Store blob in IndexedDB cache
+ * Add a site to a blob's list of sites, keeping the list unique
+ */
+function addSiteKey(list, siteKey) {
+  return list.includes(siteKey) ? list : [...list, siteKey];
+}
+
+/**
+ * Store blob in IndexedDB cache, recording its size and owning site
  */
-async function storeBlob(cid, blob) {
+async function storeBlob(cid, blob, siteKey, pin = false) {
   if (!db) await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['blobs'], 'readwrite');
-    const store = transaction.objectStore('blobs');
-    const request = store.put(blob, cid);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    const transaction = db.transaction(['blobs', 'blobMeta'], 'readwrite');
+    const metaStore = transaction.objectStore('blobMeta');
+
+    transaction.objectStore('blobs').put(blob, cid);
+
+    // The same CID can belong to several sites
+    const metaRequest = metaStore.get(cid);
+    metaRequest.onsuccess = () => {
+      const pinnedBy = metaRequest.result?.pinnedBy || [];
+      metaStore.put({
+        cid,
+        size: blob.size,
+        lastAccess: Date.now(),
+        sites: addSiteKey(metaRequest.result?.sites || [], siteKey),
+        pinnedBy: pin ? addSiteKey(pinnedBy, siteKey) : pinnedBy,
+      });
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
   });
 }
 
 /**
- * Get blob from IndexedDB cache
+ * Get blob from IndexedDB cache, updating its last access time (and pinning it for the site when asked)
  */
-async function getBlob(cid) {
+async function getBlob(cid, siteKey, pin = false) {
   if (!db) await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['blobs'], 'readonly');
-    const store = transaction.objectStore('blobs');
-    const request = store.get(cid);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+    const transaction = db.transaction(['blobs', 'blobMeta'], 'readwrite');
+    const metaStore = transaction.objectStore('blobMeta');
+    const request = transaction.objectStore('blobs').get(cid);
+    const metaRequest = metaStore.get(cid);
+
+    metaRequest.onsuccess = () => {
+      const meta = metaRequest.result;
+      if (!meta) return;
+
+      const now = Date.now();
+      const pinnedBy = meta.pinnedBy || [];
+      const newSite = siteKey && !meta.sites.includes(siteKey);
+      const newPin = pin && !pinnedBy.includes(siteKey);
+      if (newSite || newPin || now - meta.lastAccess > CACHE_TOUCH_INTERVAL) {
+        metaStore.put({
+          ...meta,
+          lastAccess: now,
+          sites: siteKey ? addSiteKey(meta.sites, siteKey) : meta.sites,
+          pinnedBy: newPin ? [...pinnedBy, siteKey] : pinnedBy,
+        });
+      }
+    };
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
 /**
- * Get the overlay injection script as a string
+ * Get metadata for every cached blob
  */
-function getOverlayScript() {
-  // The overlay script is inlined here to avoid fetch issues
-  return `(function(){'use strict';if(document.getElementById('wisp-overlay-container'))return;const e=document.createElement('div');e.id='wisp-overlay-container';const t=\`
-#wisp-overlay-container{pointer-events: none;position:fixed;bottom:16px;left:0;width:100vw;display:flex;justify-content:center;align-items:center;z-index:2147483647;font-family:system-ui,-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif}
-#wisp-back-button{pointer-events: all;display:flex;align-items:center;gap:8px;padding:8px 16px;background:rgba(255,255,255,.95);backdrop-filter:blur(4px);box-shadow:0 4px 12px rgba(0,0,0,.15);border-radius:8px;border:1px solid rgba(0,0,0,.1);cursor:pointer;font-size:14px;font-weight:500;color:#374151;transition:all .2s ease;text-decoration:none}
-#wisp-back-button:hover{background:#fff;color:#111827;box-shadow:0 6px 16px rgba(0,0,0,.2)}
-#wisp-back-button:active{transform:translateY(1px)}
-#wisp-back-button svg{width:20px;height:20px}
-#wisp-overlay-container #wisp-close-button{position:absolute;top:-8px;right:-8px;width:20px;height:20px;background:#ef4444;color:#fff;border:0;border-radius:50%;cursor:pointer;display:none;align-items:center;justify-content:center;font-size:12px;font-weight:700;line-height:1}
-#wisp-overlay-container:hover #wisp-close-button{display:flex}
-#wisp-overlay-container #wisp-close-button:hover{background:#dc2626}
-\`;const o=document.createElement('style');o.textContent=t,document.head.appendChild(o);const n=document.createElement('a');n.id='wisp-back-button',n.href='/',n.innerHTML=\`<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M19 12H5M12 19l-7-7 7-7"/></svg><span>Back to Resolver</span>\`;const i=document.createElement('button');i.id='wisp-close-button',i.innerHTML='×',i.title='Hide overlay',i.setAttribute('aria-label','Hide overlay'),i.addEventListener('click',function(t){t.preventDefault(),t.stopPropagation(),e.remove()}),e.appendChild(n),e.appendChild(i);function r(){if(window.location.pathname.startsWith('/wisp/')){document.body.appendChild(e),e.style.opacity='0',e.style.transition='opacity .3s ease',requestAnimationFrame(()=>{e.style.opacity='1'});var a=window.location.pathname.split('/');if(a.length>=4){var d=a[2],s=a[3],l='/wisp/'+d+'/'+s+'/';document.addEventListener('click',function c(t){var n=t.target.closest('a');if(n){var h=n.getAttribute('href');if(h&&h.startsWith('/')&&!h.startsWith('//')&&!h.startsWith('/wisp/')){var i=n.getAttribute('target');if(!i||'_blank'!==i){var b=n.getAttribute('download');if(!b){var o=h.includes('://');if(!o){if(n.id==='wisp-back-button'){console.log('[Wisp Overlay] Back button clicked, allowing default navigation to '+h);return}t.preventDefault(),t.stopPropagation();var f=l+h.replace(/^\\//,'');n.href=f,console.log('[Wisp Overlay] Rewrote link: '+h+' -> '+f),window.location.href=f}}}}}},false)}}}'loading'===document.readyState?document.addEventListener('DOMContentLoaded',r):r()})();`;
+async function getAllBlobMeta() {
+  if (!db) await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['blobMeta'], 'readonly');
+    const request = transaction.objectStore('blobMeta').getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
 }
 
 /**
- * Rewrite absolute URLs in CSS to be relative
+ * Delete cached blobs and their metadata
  */
-function rewriteCssUrls(css) {
-  // Match url('/path') or url("/path") patterns
-  // Also handle data URLs (leave those alone)
-  return css.replace(
-    /url\(['"]?\/([^'")]+)['"]?\)/g,
-    (match, path) => {
-      console.log('[Wisp SW] Rewriting CSS URL:', match, '→ url("' + path + '")');
-      return 'url("' + path + '")';
+async function deleteBlobs(cids) {
+  if (!db) await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['blobs', 'blobMeta'], 'readwrite');
+    const blobStore = transaction.objectStore('blobs');
+    const metaStore = transaction.objectStore('blobMeta');
+    for (const cid of cids) {
+      blobStore.delete(cid);
+      metaStore.delete(cid);
     }
-  );
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
 }
 
 /**
- * Inject overlay script and base tag into HTML content
+ * Clear the blob cache, or only the blobs used by one site
+ * Blobs shared with other sites are kept and just lose the site.
  */
-function injectOverlayScript(html, sitePath) {
-  const overlayScript = getOverlayScript();
-  const scriptTag = `<script>${overlayScript}<\/script>`;
+async function clearBlobCache(siteKey) {
+  if (!db) await initDB();
 
-  // Use stored DID and siteName for building base URL
-  // This ensures the base URL matches what the manifest was set for
-  // Note: Don't encodeURIComponent here - the base tag needs raw URL path
-  const wispDid = did || 'unknown';
-  const wispSiteName = currentSiteName || 'site';
+  if (!siteKey) {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['blobs', 'blobMeta'], 'readwrite');
+      transaction.objectStore('blobs').clear();
+      transaction.objectStore('blobMeta').clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
 
-  // The base URL should not be URL-encoded - browsers need the raw URL
-  // The DID may contain colons and other special characters, but these are
-  // valid in URL paths, so we use them directly
-  const baseUrl = `/wisp/${wispDid}/${wispSiteName}/`;
+  const entries = await getAllBlobMeta();
+  const orphaned = [];
 
-  console.log('[Wisp SW] Injecting base tag:', baseUrl, 'for path:', sitePath);
-  console.log('[Wisp SW] Current DID:', wispDid);
-  console.log('[Wisp SW] Current siteName:', wispSiteName);
+  await new Promise((resolve, reject) => {
+    const transaction = db.transaction(['blobMeta'], 'readwrite');
+    const metaStore = transaction.objectStore('blobMeta');
+    for (const meta of entries) {
+      if (!meta.sites.includes(siteKey)) continue;
 
-  // Create base tag
-  const baseTag = `<base href="${baseUrl}">`;
+      const remaining = meta.sites.filter((key) => key !== siteKey);
+      if (remaining.length === 0) {
+        orphaned.push(meta.cid);
+      } else {
+        metaStore.put({ ...meta, sites: remaining });
+      }
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
 
-  let result = html;
+  await deleteBlobs(orphaned);
+}
 
-  // First, remove any existing base tags to avoid conflicts
-  result = result.replace(/<base\s+[^>]*>/gi, '');
+/**
+ * Get the cache budget, loading the persisted one on first use
+ */
+async function getCacheBudget() {
+  if (cacheBudget) return cacheBudget;
+  if (!db) await initDB();
 
-  // Rewrite absolute paths to be relative (so they respect the base tag)
-  // This handles: href="/..." src="/..." srcset="/..."
-  result = result.replace(
-    /(<(?:a|link|script|img|source|iframe|embed)\s+[^>]*?(?:href|src|srcset)\s*=\s*['"])(\/[^'"]*)(['"])/gi,
-    (match, prefix, path, suffix) => {
-      console.log('[Wisp SW] Rewriting absolute path:', path, '→', path.substring(1));
-      return prefix + path.substring(1) + suffix;
-    }
-  );
+  const stored = await new Promise((resolve, reject) => {
+    const transaction = db.transaction(['config'], 'readonly');
+    const request = transaction.objectStore('config').get('cacheBudget');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 
-  // Inject base tag after opening head tag (or create one if missing)
-  const headMatch = result.match(/<head[^>]*>/i);
-  if (headMatch) {
-    // Has a head tag, inject base tag after it
-    result = result.replace(/(<head[^>]*>)/i, `$1\n  ${baseTag}`);
-    console.log('[Wisp SW] Injected base tag after existing head tag');
-  } else {
-    const htmlMatch = result.match(/<html[^>]*>/i);
-    if (htmlMatch) {
-      // No head tag, insert after html opening tag
-      result = result.replace(/(<html[^>]*>)/i, `$1\n<head>\n  ${baseTag}\n</head>`);
-      console.log('[Wisp SW] Created new head tag with base tag');
-    } else {
-      // No html tag either, prepend both
-      result = `<!DOCTYPE html><html><head>\n  ${baseTag}\n</head><body>` + result + `</body></html>`;
-      console.log('[Wisp SW] Created html and head tags with base tag');
-    }
-  }
+  cacheBudget = { ...DEFAULT_CACHE_BUDGET, ...stored };
+  return cacheBudget;
+}
 
-  // Inject overlay script before closing body tag
-  if (result.includes('</body>')) {
-    result = result.replace('</body>', `${scriptTag}\n</body>`);
-  } else if (result.includes('<body')) {
-    result = result.replace(/(<body[^>]*>)/, `$1\n${scriptTag}`);
-  } else {
-    // No body tag, append at end
-    result = result + scriptTag;
+/**
+ * Update and persist the cache budget
+ */
+async function setCacheBudget(budget) {
+  const current = await getCacheBudget();
+  const next = { ...current };
+
+  if (Number.isFinite(budget.maxBytes) && budget.maxBytes >= 0) {
+    next.maxBytes = budget.maxBytes;
+  }
+  if (Number.isFinite(budget.quotaFraction) && budget.quotaFraction > 0 && budget.quotaFraction <= 1) {
+    next.quotaFraction = budget.quotaFraction;
   }
 
-  // Log a snippet of the result to verify base tag is there
-  const snippet = result.substring(0, 500);
-  console.log('[Wisp SW] HTML snippet (first 500 chars):', snippet);
+  await new Promise((resolve, reject) => {
+    const transaction = db.transaction(['config'], 'readwrite');
+    const request = transaction.objectStore('config').put(next, 'cacheBudget');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
 
-  return result;
+  cacheBudget = next;
+  return next;
 }
 
 /**
- * Handle directory listing request
+ * Estimate the origin's storage usage and quota, when the browser can tell us
  */
-async function handleDirectoryListing(path) {
-  const normalized = normalizePath(path);
-  const segments = normalized.split('/');
-  let current = currentManifest;
-
-  // Navigate to directory
-  for (const segment of segments) {
-    if (!segment) continue;
-    if (!current.dirs || !current.dirs[segment]) {
-      return new Response('Directory not found', { status: 404 });
+async function estimateStorage() {
+  try {
+    if (self.navigator?.storage?.estimate) {
+      const { usage, quota } = await self.navigator.storage.estimate();
+      if (Number.isFinite(usage) && Number.isFinite(quota)) {
+        return { usage, quota };
+      }
     }
-    current = current.dirs[segment];
+  } catch (error) {
+    console.warn('[Wisp SW] Storage estimate failed:', error);
   }
+  return null;
+}
+
+/**
+ * Evict least recently used blobs once the cache outgrows its budget or
+ * storage usage nears the quota
+ */
+async function enforceCacheBudget() {
+  // Only one eviction pass at a time; callers share the running one
+  if (evicting) return evicting;
+
+  evicting = (async () => {
+    const budget = await getCacheBudget();
+    const entries = await getAllBlobMeta();
+    const cachedBytes = entries.reduce((total, meta) => total + meta.size, 0);
+    const lowWater = 1 - CACHE_LOW_WATER_MARK;
+
+    let excess = cachedBytes > budget.maxBytes
+      ? cachedBytes - budget.maxBytes * CACHE_LOW_WATER_MARK
+      : 0;
+
+    const estimate = await estimateStorage();
+    if (estimate && estimate.quota > 0) {
+      const quotaLimit = estimate.quota * budget.quotaFraction;
+      if (estimate.usage > quotaLimit) {
+        excess = Math.max(excess, estimate.usage - quotaLimit + quotaLimit * lowWater);
+      }
+    }
 
-  // Generate directory listing HTML
-  const files = current.files ? Object.entries(current.files) : [];
-  const dirs = current.dirs ? Object.keys(current.dirs) : [];
+    if (excess <= 0) return;
 
-  let html = `<!DOCTYPE html>
-<html>
-<head>
-  <title>Index of ${path || '/'}</title>
-  <style>
-    body { font-family: system-ui, sans-serif; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
-    h1 { border-bottom: 1px solid #ccc; padding-bottom: 0.5rem; }
-    ul { list-style: none; padding: 0; }
-    li { padding: 0.5rem 0; border-bottom: 1px solid #eee; }
-    a { color: #0066cc; text-decoration: none; }
-    a:hover { text-decoration: underline; }
-    .size { color: #666; margin-left: 1rem; }
-  </style>
-</head>
-<body>
-  <h1>Index of ${path || '/'}</h1>
-  <ul>`;
+    entries.sort((a, b) => a.lastAccess - b.lastAccess);
 
-  // Parent directory link
-  if (segments.length > 0) {
-    const parentPath = segments.slice(0, -1).join('/');
-    html += `<li><a href="/${parentPath}">../</a></li>`;
+    const evicted = [];
+    let freed = 0;
+    for (const meta of entries) {
+      if (freed >= excess) break;
+      // Pinned blobs stay until their sites are unpinned
+      if (meta.pinnedBy?.length) continue;
+      evicted.push(meta.cid);
+      freed += meta.size;
+    }
+
+    await deleteBlobs(evicted);
+    evictionTotals.blobs += evicted.length;
+    evictionTotals.bytes += freed;
+
+    console.log('[Wisp SW] Evicted blobs:', { count: evicted.length, bytes: freed });
+  })();
+
+  try {
+    await evicting;
+  } finally {
+    evicting = null;
   }
+}
 
-  // Directories
-  for (const dir of dirs.sort()) {
-    const dirPath = [...segments, dir].join('/');
-    html += `<li><a href="/${dirPath}/">${dir}/</a></li>`;
+/**
+ * List every file in a manifest with its path
+ */
+function collectManifestFiles(dir, prefix = '') {
+  const files = [];
+  for (const [name, file] of Object.entries(dir.files || {})) {
+    files.push({ path: prefix + name, file });
   }
+  for (const [name, subdir] of Object.entries(dir.dirs || {})) {
+    files.push(...collectManifestFiles(subdir, `${prefix}${name}/`));
+  }
+  return files;
+}
 
-  // Files
-  for (const [name, file] of files.sort()) {
-    const filePath = [...segments, name].join('/');
-    html += `<li><a href="/${filePath}">${name}</a></li>`;
+/**
+ * Download every blob of a site into the cache and pin it there
+ * Reports { done, total, failed } after each file; resolves with the paths that failed.
+ */
+async function pinSite(site, onProgress) {
+  // Files sharing a blob only need it fetched once
+  const byCid = new Map();
+  for (const entry of collectManifestFiles(site.manifest)) {
+    if (!byCid.has(entry.file.cid)) byCid.set(entry.file.cid, entry);
   }
 
-  html += `  </ul>
-</body>
-</html>`;
+  const queue = [...byCid.values()];
+  const total = queue.length;
+  const failed = [];
+  let done = 0;
 
-  // Inject overlay script and base tag
-  html = injectOverlayScript(html, path);
+  const worker = async () => {
+    while (queue.length > 0) {
+      const { path, file } = queue.shift();
+      try {
+        await fetchBlobFromPDS(site, file, { pin: true });
+      } catch (error) {
+        console.warn('[Wisp SW] Failed to pin:', path, error);
+        failed.push(path);
+      }
+      done++;
+      onProgress({ done, total, failed: failed.length });
+    }
+  };
 
-  return new Response(html, {
-    headers: {
-      'Content-Type': 'text/html; charset=utf-8',
-      'Cache-Control': 'no-cache',
-      'X-Wisp-Overlay': 'injected',
-    },
+  await Promise.all(Array.from({ length: Math.min(PIN_CONCURRENCY, total) }, worker));
+  return failed;
+}
+
+/**
+ * Unpin a site's blobs so eviction can reclaim them
+ */
+async function unpinSite(siteKey) {
+  const entries = await getAllBlobMeta();
+  const pinned = entries.filter((meta) => meta.pinnedBy?.includes(siteKey));
+  if (pinned.length === 0) return;
+
+  await new Promise((resolve, reject) => {
+    const transaction = db.transaction(['blobMeta'], 'readwrite');
+    const metaStore = transaction.objectStore('blobMeta');
+    for (const meta of pinned) {
+      metaStore.put({ ...meta, pinnedBy: meta.pinnedBy.filter((key) => key !== siteKey) });
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
 /**
- * Handle fetch event
+ * Cache usage statistics, overall and per site
  */
-async function handleFetch(event) {
-  const url = new URL(event.request.url);
-  const path = url.pathname;
+async function getCacheStats() {
+  const entries = await getAllBlobMeta();
+  const perSite = new Map();
+  let totalBytes = 0;
+  let pinnedBytes = 0;
+
+  for (const meta of entries) {
+    const pinnedBy = meta.pinnedBy || [];
+    totalBytes += meta.size;
+    if (pinnedBy.length > 0) pinnedBytes += meta.size;
+
+    for (const siteKey of meta.sites) {
+      const usage = perSite.get(siteKey) || { blobCount: 0, bytes: 0, pinnedBlobCount: 0 };
+      usage.blobCount += 1;
+      usage.bytes += meta.size;
+      if (pinnedBy.includes(siteKey)) usage.pinnedBlobCount += 1;
+      perSite.set(siteKey, usage);
+    }
+  }
 
-  // Only handle requests under /wisp/ path
-  if (!path.startsWith('/wisp/')) {
+  // Loaded sites are listed even before anything is cached, with their blob count
+  for (const [siteKey, site] of sites) {
+    const usage = perSite.get(siteKey) || { blobCount: 0, bytes: 0, pinnedBlobCount: 0 };
+    usage.siteBlobCount = new Set(collectManifestFiles(site.manifest).map(({ file }) => file.cid)).size;
+    perSite.set(siteKey, usage);
+  }
+
+  return {
+    blobCount: entries.length,
+    totalBytes,
+    pinnedBytes,
+    budget: await getCacheBudget(),
+    storage: await estimateStorage(),
+    evicted: { ...evictionTotals },
+    sites: [...perSite.entries()].map(([siteKey, usage]) => {
+      // DIDs can't contain '/', so the first one separates the site name
+      const separator = siteKey.indexOf('/');
+      return {
+        did: siteKey.slice(0, separator),
+        siteName: siteKey.slice(separator + 1),
+        loaded: sites.has(siteKey),
+        pinning: pinning.has(siteKey),
+        ...usage,
+      };
+    }),
+  };
+}
+
+/**
+ * Get the overlay injection script as a string
+ * The overlay is maintained in overlay.js; its source is inlined into the page
+ * so it works offline and can carry the safe mode nonce.
+ */
+function getOverlayScript(site) {
+  const config = {
+    did: site.did,
+    siteName: site.siteName,
+    handle: site.handle,
+    base: getSiteBaseUrl(site),
+    safeMode: !!site.settings.safeMode,
+    privacyMode: site.settings.privacyMode,
+  };
+  // Escape '<' so nothing in the config can close the script element
+  const configJson = JSON.stringify(config).replace(/</g, '\\u003c');
+  return `(${self.WispOverlay.mountOverlay.toString()})(${configJson});`;
+}
+
+/**
+ * Rewrite root-relative URLs in CSS onto the site's prefix
+ * Browsers resolve url() against the stylesheet rather than the page's <base>,
+ * so root-relative references need the full /wisp/{did}/{siteName}/ path.
+ */
+function rewriteCssUrls(site, css) {
+  return self.WispCssRewriter.rewriteCss(css, (url) => rewriteSiteUrl(site, url));
+}
+
+/**
+ * Rewrite root-relative module specifiers in JavaScript onto the site's prefix
+ */
+function rewriteJsUrls(site, js) {
+  return self.WispJsRewriter.rewriteModuleSpecifiers(js, (url) => rewriteSiteUrl(site, url));
+}
+
+/**
+ * Rewrite an inline script: import maps have their URLs mapped, JavaScript its module specifiers
+ */
+function rewriteInlineScript(site, text, type) {
+  if (type === 'importmap') {
+    return self.WispJsRewriter.rewriteImportMap(text, (url) => rewriteSiteUrl(site, url));
+  }
+  if (type === '' || type === 'module' || /^(?:text|application)\/(?:x-)?(?:java|ecma)script$/.test(type)) {
+    return rewriteJsUrls(site, text);
+  }
+  return text;
+}
+
+/**
+ * Runtime injected at the top of every page, before the site's own scripts
+ * Re-prefixes root-relative fetch() and XMLHttpRequest URLs with the site's path.
+ */
+function getRuntimeScript(site) {
+  return `(function () {
+  var base = ${JSON.stringify(getSiteBaseUrl(site))};
+
+  function rewrite(url) {
+    var resolved;
+    try {
+      resolved = new URL(url, document.baseURI);
+    } catch (error) {
+      return url;
+    }
+    // Same-origin URLs outside /wisp/ would reach the explorer instead of the site
+    if (resolved.origin !== location.origin || resolved.pathname.indexOf('/wisp/') === 0) {
+      return url;
+    }
+    return base + resolved.pathname.slice(1) + resolved.search + resolved.hash;
+  }
+
+  var originalFetch = window.fetch;
+  window.fetch = function (input, init) {
+    if (input instanceof Request) {
+      var url = rewrite(input.url);
+      return originalFetch.call(this, url === input.url ? input : new Request(url, input), init);
+    }
+    return originalFetch.call(this, rewrite(String(input)), init);
+  };
+
+  var originalOpen = XMLHttpRequest.prototype.open;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    var args = Array.prototype.slice.call(arguments);
+    args[1] = rewrite(String(url));
+    return originalOpen.apply(this, args);
+  };${site.embedderOrigin ? getLocationReporter(site.embedderOrigin) : ''}${
+    site.embedderOrigin && site.settings.privacyMode !== 'off' ? getPrivacyReportRelay(site.embedderOrigin) : ''}
+})();`;
+}
+
+/**
+ * Runtime addition for sandboxed sites: tells the explorer which page is showing,
+ * so its address bar follows navigation inside the iframe
+ */
+function getLocationReporter(embedderOrigin) {
+  return `
+
+  if (window.top === window.parent && window.parent !== window) {
+    var reportLocation = function () {
+      window.parent.postMessage(
+        { type: 'WISP_LOCATION', path: location.pathname + location.search + location.hash },
+        ${JSON.stringify(embedderOrigin)}
+      );
+    };
+    ['pushState', 'replaceState'].forEach(function (method) {
+      var original = history[method];
+      history[method] = function () {
+        var result = original.apply(this, arguments);
+        reportLocation();
+        return result;
+      };
+    });
+    reportLocation();
+    window.addEventListener('hashchange', reportLocation);
+    window.addEventListener('popstate', reportLocation);
+  }`;
+}
+
+/**
+ * Runtime addition for sandboxed sites in privacy mode: passes the explorer's
+ * requests for the site's privacy report to our service worker and the signed
+ * report back (see signPrivacyReport)
+ */
+function getPrivacyReportRelay(embedderOrigin) {
+  return `
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== ${JSON.stringify(embedderOrigin)} || event.source !== window.parent) return;
+    if (!event.data || event.data.type !== 'WISP_GET_PRIVACY_REPORT') return;
+    var controller = navigator.serviceWorker && navigator.serviceWorker.controller;
+    if (!controller) return;
+
+    var channel = new MessageChannel();
+    channel.port1.onmessage = function (reply) {
+      channel.port1.close();
+      window.parent.postMessage(
+        { type: 'WISP_PRIVACY_REPORT', payload: reply.data.payload, signature: reply.data.signature },
+        event.origin
+      );
+    };
+    controller.postMessage({ type: 'GET_PRIVACY_REPORT', nonce: String(event.data.nonce) }, [channel.port2]);
+  });`;
+}
+
+/**
+ * Map a root-relative URL onto the site's /wisp/{did}/{siteName}/ prefix
+ * Relative, absolute and protocol-relative URLs are left for the browser (and <base>).
+ */
+function rewriteSiteUrl(site, url) {
+  if (!url.startsWith('/') || url.startsWith('//') || url.startsWith('/wisp/')) {
+    return url;
+  }
+  return getSiteBaseUrl(site) + url.slice(1);
+}
+
+/**
+ * Base URL of a site: /wisp/{did}/{siteName}/
+ */
+function getSiteBaseUrl(site) {
+  // Don't encodeURIComponent here - the base tag needs the raw URL path.
+  // The DID may contain colons, but these are valid in URL paths
+  return `/wisp/${site.did || 'unknown'}/${site.siteName || 'site'}/`;
+}
+
+/**
+ * Inject overlay script and base tag into HTML content
+ * Sandboxed sites get no overlay; the explorer shows its own bar around the iframe.
+ * In safe mode only scripts carrying `nonce` may run, so ours get it.
+ */
+function injectOverlayScript(site, html, sitePath, nonce = null) {
+  const overlayScript = site.embedderOrigin ? null : getOverlayScript(site);
+  const baseUrl = getSiteBaseUrl(site);
+  const scriptTag = nonce ? `<script nonce="${nonce}">` : '<script>';
+
+  console.log('[Wisp SW] Rewriting HTML with base:', baseUrl, 'for path:', sitePath);
+
+  return self.WispHtmlRewriter.rewriteHtml(html, {
+    rewriteUrl: (url) => rewriteSiteUrl(site, url),
+    rewriteCss: (css) => rewriteCssUrls(site, css),
+    rewriteScript: (text, type) => rewriteInlineScript(site, text, type),
+    headHtml: `<base href="${baseUrl}">${scriptTag}${getRuntimeScript(site)}<\/script>`,
+    bodyEndHtml: overlayScript ? `${scriptTag}${overlayScript}<\/script>` : '',
+  });
+}
+
+/**
+ * Handle directory listing request
+ * Served for directories without an index file; see directory-listing.js.
+ */
+async function handleDirectoryListing(site, path) {
+  const names = [];
+  let current = site.manifest;
+
+  // Navigate to directory, collecting the names as the manifest stores them
+  for (const segment of normalizePath(path).split('/').filter(Boolean)) {
+    const name = findManifestName(current.dirs, segment);
+    if (name === null) {
+      return new Response('Directory not found', { status: 404 });
+    }
+    names.push(name);
+    current = current.dirs[name];
+  }
+
+  const nonce = createScriptNonce(site);
+  let html = self.WispDirectoryListing.renderDirectoryListing({
+    siteName: site.siteName,
+    segments: names,
+    directory: current,
+    nonce,
+  });
+
+  // Inject overlay script and base tag
+  html = injectOverlayScript(site, html, path, nonce);
+
+  return withScriptNonce(
+    new Response(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'X-Wisp-Overlay': 'injected',
+      },
+    }),
+    nonce
+  );
+}
+
+/**
+ * Strip a trailing slash (except for the root) so /foo and /foo/ match alike
+ */
+function trimTrailingSlash(path) {
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+/**
+ * Load and cache the current site's _redirects rules
+ */
+async function loadRedirectRules(site) {
+  if (site.redirectRules) {
+    return site.redirectRules;
+  }
+
+  const file = lookupFile(site, '_redirects');
+  if (!file) {
+    site.redirectRules = [];
+    return site.redirectRules;
+  }
+
+  try {
+    const response = await fetchBlobFromPDS(site, file);
+    site.redirectRules = self.WispRedirects.parseRedirects(await response.text());
+    console.log('[Wisp SW] Loaded _redirects rules:', site.redirectRules.length);
+  } catch (error) {
+    console.warn('[Wisp SW] Failed to load _redirects:', error);
+    site.redirectRules = [];
+  }
+
+  return site.redirectRules;
+}
+
+/**
+ * Apply the site's _redirects rules to a request
+ * Returns a Response when a rule applies, or null to continue normal lookup.
+ */
+async function applyRedirects(site, requestPath, url) {
+  const rules = await loadRedirectRules(site);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const sitePath = '/' + requestPath;
+  const basePath = `/wisp/${site.did}/${site.siteName}`;
+  let fileExists = null;
+
+  for (const rule of rules) {
+    const params = self.WispRedirects.matchRedirectRule(rule, sitePath, url.searchParams);
+    if (!params) continue;
+
+    // Unforced rules are shadowed by files that exist at the path
+    if (!rule.force) {
+      if (fileExists === null) {
+        fileExists = !!resolveSitePath(site, requestPath);
+      }
+      if (fileExists) {
+        return null;
+      }
+    }
+
+    let target = self.WispRedirects.expandRedirectTarget(rule.to, params);
+    const isExternal = /^[a-z][a-z0-9+.-]*:\/\//i.test(target);
+
+    // Carry the original query string over when the target has none
+    if (!target.includes('?') && url.search && Object.keys(rule.query).length === 0) {
+      target += url.search;
+    }
+
+    console.log('[Wisp SW] _redirects match:', rule.from, '→', target, rule.status);
+
+    if (self.WispRedirects.isRedirectRule(rule)) {
+      const location = isExternal ? target : new URL(basePath + target, url.origin).toString();
+      return Response.redirect(location, rule.status);
+    }
+
+    if (isExternal) {
+      // Proxying to other origins isn't possible from here
+      console.warn('[Wisp SW] Unsupported external rewrite in _redirects:', target);
+      return null;
+    }
+
+    // 200 rewrites and custom status pages (404, 410...) serve the target in place
+    const targetPath = target.split(/[?#]/)[0].replace(/^\//, '');
+    return serveSitePath(site, targetPath, rule.status);
+  }
+
+  return null;
+}
+
+/**
+ * Handle fetch event
+ */
+async function handleFetch(event) {
+  const url = new URL(event.request.url);
+  const path = url.pathname;
+
+  // Pages of sites in privacy mode have their requests to other origins logged or blocked
+  if (url.origin !== self.location.origin) {
+    const blocked = await applyPrivacyMode(event, url);
+    if (blocked) {
+      return blocked;
+    }
+  }
+
+  // Only handle requests under /wisp/ path
+  if (!path.startsWith('/wisp/')) {
     console.log('[Wisp SW] Non-wisp request, passing through:', path);
     console.log('[Wisp SW] Full URL:', event.request.url);
     return fetch(event.request);
@@ -614,87 +1409,458 @@ async function handleFetch(event) {
 
   console.log('[Wisp SW] Extracted:', { requestDid, requestSiteName, requestPath });
 
-  // Ensure we have a manifest loaded
-  if (!currentManifest) {
-    console.log('[Wisp SW] No manifest in memory, trying IndexedDB...');
+  // Find the manifest for this site
+  const site = await getSite(decodeURIComponent(requestDid), decodeURIComponent(requestSiteName));
 
-    // Try to load from IndexedDB
-    currentManifest = await getManifest();
-    const siteInfo = await getSiteInfo();
+  if (!site) {
+    console.log('[Wisp SW] No manifest for site:', { requestDid, requestSiteName });
 
-    if (siteInfo) {
-      pdsUrl = siteInfo.pdsUrl;
-      did = siteInfo.did;
-      currentHandle = siteInfo.handle;
-      currentSiteName = siteInfo.siteName;
-      console.log('[Wisp SW] Loaded from IndexedDB:', { pdsUrl, did, currentHandle, currentSiteName });
+    // Let page loads through to the app, which fetches the site and hands it back to us
+    if (event.request.mode === 'navigate') {
+      return fetch(event.request);
     }
 
-    if (!currentManifest) {
-      return new Response('No manifest loaded. Please load a site first.', {
-        status: 503,
-        headers: { 'Content-Type': 'text/plain' },
-      });
+    return new Response('No manifest loaded for this site. Please load it from the resolver.', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+
+  // Apply the site's _redirects rules before looking up the file
+  const redirectResponse = await applyRedirects(site, requestPath, url);
+  if (redirectResponse) {
+    return applyContentPolicies(site, applyCustomHeaders(site, redirectResponse, requestPath));
+  }
+
+  return applyContentPolicies(site, applyCustomHeaders(site, await serveSitePath(site, requestPath), requestPath));
+}
+
+/**
+ * Find the site whose page made a request, from the page's /wisp/ URL
+ */
+async function getRequestingSite(clientId) {
+  if (!clientId) {
+    return null;
+  }
+
+  const client = await clients.get(clientId);
+  const match = client && new URL(client.url).pathname.match(/^\/wisp\/([^/]+)\/([^/]+)\//);
+  if (!match) {
+    return null;
+  }
+
+  return getSite(decodeURIComponent(match[1]), decodeURIComponent(match[2]));
+}
+
+/**
+ * Record a third-party request in its page's privacy report
+ */
+async function recordThirdPartyRequest(clientId, site, url, blocked) {
+  let report = privacyReports.get(clientId);
+  if (!report) {
+    const client = await clients.get(clientId);
+    report = { pageUrl: client ? client.url : null, mode: site.settings.privacyMode, origins: new Map() };
+    privacyReports.set(clientId, report);
+
+    // Forget the oldest pages; Map keeps insertion order
+    while (privacyReports.size > PRIVACY_REPORT_LIMIT) {
+      privacyReports.delete(privacyReports.keys().next().value);
     }
   }
+  addToPrivacyReport(report, site, url, blocked);
 
-  // Verify DID matches (in case of bookmarked URLs)
-  if (did && did !== requestDid) {
-    console.log('[Wisp SW] DID mismatch:', { stored: did, requested: requestDid });
-    return new Response('Site mismatch. Please navigate from the resolver.', {
-      status: 400,
-      headers: { 'Content-Type': 'text/plain' },
-    });
+  // Sandboxed sites also keep a report for all their pages, which the explorer asks for
+  if (site.reportKey) {
+    if (!site.privacyReport) {
+      site.privacyReport = { pageUrl: null, mode: site.settings.privacyMode, origins: new Map() };
+    }
+    addToPrivacyReport(site.privacyReport, site, url, blocked);
+  }
+}
+
+/**
+ * Count a request to an origin in a privacy report
+ */
+function addToPrivacyReport(report, site, url, blocked) {
+  report.mode = site.settings.privacyMode;
+  const entry = report.origins.get(url.origin) || { requests: 0, blocked: 0 };
+  entry.requests++;
+  if (blocked) entry.blocked++;
+  report.origins.set(url.origin, entry);
+}
+
+/**
+ * Log or block a cross-origin request made by a page of a site in privacy mode
+ * Returns the response for a blocked request, or null to let it through.
+ *
+ * Only requests that reach us with the page's client id are seen: not frames
+ * from other origins (or anything loaded inside them), not workers, WebSockets
+ * or WebRTC. In block mode the page's Content-Security-Policy stops those
+ * instead (see getPrivacyBlockPolicy), but they don't show up in the report.
+ */
+async function applyPrivacyMode(event, url) {
+  const site = await getRequestingSite(event.clientId);
+  const mode = site ? site.settings.privacyMode : 'off';
+  if (mode === 'off') {
+    return null;
+  }
+
+  const blocked = mode === 'block';
+  console.log(`[Wisp SW] Third-party request ${blocked ? 'blocked' : 'logged'}:`, url.href);
+  await recordThirdPartyRequest(event.clientId, site, url, blocked);
+
+  return blocked ? Response.error() : null;
+}
+
+/**
+ * The privacy report for a page, with the origins it contacted most first
+ */
+function getPrivacyReport(clientId) {
+  return formatPrivacyReport(privacyReports.get(clientId));
+}
+
+/**
+ * Turn a recorded privacy report into the form sent to pages and the explorer
+ */
+function formatPrivacyReport(report) {
+  if (!report) {
+    return null;
+  }
+
+  return {
+    pageUrl: report.pageUrl,
+    mode: report.mode,
+    origins: [...report.origins.entries()]
+      .map(([origin, entry]) => ({ origin, ...entry }))
+      .sort((a, b) => b.requests - a.requests || a.origin.localeCompare(b.origin)),
+  };
+}
+
+/**
+ * A sandboxed site's privacy report, signed for the explorer
+ * The report is relayed by the site's own page, so the explorer only trusts it if the
+ * HMAC (keyed with the reportKey it sent with the manifest) matches; the nonce from its
+ * request keeps old reports from being replayed.
+ */
+async function signPrivacyReport(site, nonce) {
+  const payload = JSON.stringify({
+    nonce,
+    report: formatPrivacyReport(site.privacyReport) || { pageUrl: null, mode: site.settings.privacyMode, origins: [] },
+  });
+  const keyBytes = Uint8Array.from(atob(site.reportKey), (char) => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+
+  return { payload, signature: btoa(String.fromCharCode(...new Uint8Array(signature))) };
+}
+
+/**
+ * A fresh nonce for the scripts we inject into a page, when the site is in safe mode
+ */
+function createScriptNonce(site) {
+  if (!site.settings.safeMode) {
+    return null;
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Remember the nonce a page's injected scripts carry, and return the page
+ */
+function withScriptNonce(response, nonce) {
+  if (nonce) {
+    scriptNonces.set(response, nonce);
+  }
+  return response;
+}
+
+/**
+ * Content-Security-Policy for safe mode
+ * Only scripts carrying the nonce (the explorer's runtime and overlay) run; workers,
+ * plugins, frames from other origins and form submissions are blocked.
+ */
+function getSafeModePolicy(nonce) {
+  return [
+    `script-src ${nonce ? `'nonce-${nonce}'` : "'none'"}`,
+    "worker-src 'none'",
+    "object-src 'none'",
+    "frame-src 'self'",
+    "form-action 'none'",
+    "base-uri 'self'",
+  ].join('; ');
+}
+
+/**
+ * Content-Security-Policy for privacy mode's block setting
+ * Keeps every fetch on this origin, so frames, workers and WebSockets to other
+ * origins are stopped even though their requests never reach our fetch handler.
+ * Inline and same-origin scripts and styles still run; safe mode restricts those.
+ * CSP can't stop WebRTC or top-level navigations to other sites.
+ */
+function getPrivacyBlockPolicy() {
+  return [
+    "default-src 'self' data: blob:",
+    "script-src 'self' 'unsafe-inline' 'unsafe-eval' blob:",
+    "style-src 'self' 'unsafe-inline'",
+    "connect-src 'self'",
+    "frame-src 'self'",
+    "form-action 'self'",
+  ].join('; ');
+}
+
+/**
+ * Add the safe mode and privacy mode policies to a response, next to any policy the site sets itself
+ * Every response gets them, since SVGs and other documents can run scripts and load resources too.
+ * Browsers enforce each policy on its own, so the site's can only narrow ours.
+ */
+function applyContentPolicies(site, response) {
+  const policies = [];
+  if (site.settings.safeMode) {
+    policies.push(getSafeModePolicy(scriptNonces.get(response)));
+  }
+  if (site.settings.privacyMode === 'block') {
+    policies.push(getPrivacyBlockPolicy());
+  }
+  if (policies.length === 0) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  for (const policy of policies) {
+    headers.append('Content-Security-Policy', policy);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Check whether a settings header path pattern matches a site path
+ * Patterns are site paths with an optional trailing '*' wildcard.
+ */
+function matchHeaderPath(pattern, requestPath) {
+  const path = '/' + normalizePath(requestPath);
+  const normalizedPattern = '/' + pattern.replace(/^\//, '');
+  if (normalizedPattern.endsWith('*')) {
+    return path.startsWith(normalizedPattern.slice(0, -1));
+  }
+  return trimTrailingSlash(path) === trimTrailingSlash(normalizedPattern);
+}
+
+/**
+ * Add the site's custom response headers from its settings record
+ */
+function applyCustomHeaders(site, response, requestPath) {
+  const headers = site.settings.headers.filter(
+    (header) => !header.path || matchHeaderPath(header.path, requestPath)
+  );
+  if (headers.length === 0) {
+    return response;
+  }
+
+  const merged = new Headers(response.headers);
+  for (const { name, value } of headers) {
+    merged.set(name, value);
   }
 
+  return withScriptNonce(
+    new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: merged,
+    }),
+    scriptNonces.get(response)
+  );
+}
+
+/**
+ * Resolve a site path to a manifest file entry
+ * Tries the exact file, the directory's index file and the .html fallback.
+ * Returns { file }, { directory: true } for index-less directories, or null.
+ */
+function resolveSitePath(site, requestPath) {
   // Look up the file in the manifest
-  let file = lookupFile(currentManifest, requestPath);
+  const file = lookupFile(site, requestPath);
+  if (file) {
+    return { file };
+  }
 
-  if (!file) {
-    // Check if it's a directory by trying to find an index file
-    const indexFile = lookupIndexFile(currentManifest, requestPath);
+  // Check if it's a directory by trying to find an index file
+  const indexFile = lookupIndexFile(site, requestPath);
+  if (indexFile) {
+    // Directory has an index file, serve it
+    console.log('[Wisp SW] Serving index file for directory:', requestPath);
+    return { file: indexFile };
+  }
 
-    if (indexFile) {
-      // Directory has an index file, serve it
-      file = indexFile;
-      console.log('[Wisp SW] Serving index file for directory:', requestPath);
-    } else {
-      // Check if it's a directory (for listing purposes)
-      const segments = requestPath.split('/').filter(Boolean);
-      let current = currentManifest;
-      let isDirectory = true;
-
-      for (const segment of segments) {
-        if (!current.dirs || !current.dirs[segment]) {
-          isDirectory = false;
-          break;
-        }
-        current = current.dirs[segment];
-      }
+  // Check if it's a directory (for listing purposes)
+  const segments = requestPath.split('/').filter(Boolean);
+  let current = site.manifest;
+  let isDirectory = true;
 
-      if (isDirectory) {
-        // Directory exists but no index file - show directory listing
-        console.log('[Wisp SW] No index file for directory:', requestPath, '- showing listing');
-        return handleDirectoryListing(requestPath);
-      } else {
-        // Not a directory, try appending .html extension
-        const htmlFile = lookupFile(currentManifest, requestPath + '.html');
-        if (htmlFile) {
-          file = htmlFile;
-        }
-      }
+  for (const segment of segments) {
+    const name = findManifestName(current.dirs, segment);
+    if (name === null) {
+      isDirectory = false;
+      break;
+    }
+    current = current.dirs[name];
+  }
 
-      if (!file) {
-        return new Response('File not found', {
-          status: 404,
-          headers: { 'Content-Type': 'text/plain' },
-        });
+  if (isDirectory) {
+    return { directory: true };
+  }
+
+  if (!site.settings.cleanUrls) {
+    return null;
+  }
+
+  // Not a directory, try appending .html extension
+  const htmlFile = lookupFile(site, normalizePath(requestPath) + '.html');
+  if (htmlFile) {
+    return { file: htmlFile };
+  }
+
+  return null;
+}
+
+/**
+ * Serve a path from the current site's manifest
+ */
+async function serveSitePath(site, requestPath, status = 200) {
+  const resolved = resolveSitePath(site, requestPath);
+
+  if (resolved && resolved.directory && site.settings.directoryListing) {
+    // Directory exists but no index file - show directory listing
+    console.log('[Wisp SW] No index file for directory:', requestPath, '- showing listing');
+    return handleDirectoryListing(site, requestPath);
+  }
+
+  if (!resolved || resolved.directory) {
+    // Client-side routes exist only in the SPA's router
+    if (site.spaFallback && !isAssetPath(requestPath)) {
+      const spaPath = site.settings.spaMode || '';
+      const spaFile = spaPath
+        ? lookupFile(site, spaPath)
+        : lookupIndexFile(site, '');
+      if (spaFile) {
+        console.log('[Wisp SW] SPA fallback to', spaPath || 'root index', 'for:', requestPath);
+        return serveFile(site, spaFile, spaPath || 'index.html');
       }
     }
+
+    return serveNotFound(site, requestPath);
   }
 
+  return serveFile(site, resolved.file, requestPath, status);
+}
+
+/**
+ * Check whether a path looks like a static asset (has a non-HTML extension)
+ */
+function isAssetPath(requestPath) {
+  const lastSegment = normalizePath(requestPath).split('/').pop() || '';
+  const ext = lastSegment.includes('.') ? lastSegment.split('.').pop().toLowerCase() : '';
+  return ext !== '' && ext !== 'html' && ext !== 'htm';
+}
+
+/**
+ * Collect the paths of all HTML files in a manifest
+ */
+function collectHtmlPaths(dir, prefix = '') {
+  const paths = [];
+  for (const name of Object.keys(dir.files || {})) {
+    if (/\.html?$/i.test(name)) {
+      paths.push(prefix + name);
+    }
+  }
+  for (const [name, subDir] of Object.entries(dir.dirs || {})) {
+    paths.push(...collectHtmlPaths(subDir, `${prefix}${name}/`));
+  }
+  return paths;
+}
+
+/**
+ * Heuristic SPA detection: a root index.html is the only page (besides a
+ * 404.html) and the site ships JavaScript to route on the client.
+ */
+function detectSpa(manifest) {
+  const htmlPaths = collectHtmlPaths(manifest).filter((path) => path !== '404.html');
+  if (htmlPaths.length !== 1 || !/^index\.html?$/i.test(htmlPaths[0])) {
+    return false;
+  }
+
+  const hasScripts = (dir) =>
+    Object.keys(dir.files || {}).some((name) => /\.m?js$/i.test(name)) ||
+    Object.values(dir.dirs || {}).some(hasScripts);
+
+  return hasScripts(manifest);
+}
+
+/**
+ * Resolve the requested SPA mode ('auto' | 'on' | 'off') to a fallback flag
+ * In auto mode the site's settings record wins over the heuristic.
+ */
+function resolveSpaMode(manifest, spaMode, settings) {
+  if (spaMode === 'on') return true;
+  if (spaMode === 'off') return false;
+  if (settings.spaMode) return true;
+  const detected = detectSpa(manifest);
+  console.log('[Wisp SW] SPA auto-detection:', detected);
+  return detected;
+}
+
+/**
+ * Find the nearest 404.html for a path, from its directory up to the root
+ * A path ending in a slash, or whose last segment has no extension, is a directory
+ * and gets its own 404.html first.
+ */
+function lookupNotFoundPage(site, requestPath) {
+  const segments = normalizePath(requestPath).split('/').filter(Boolean);
+  const lastSegment = segments[segments.length - 1] || '';
+  const isDirectory = requestPath.split(/[?#]/)[0].endsWith('/') || !lastSegment.includes('.');
+
+  for (let depth = isDirectory ? segments.length : segments.length - 1; depth >= 0; depth--) {
+    const candidate = [...segments.slice(0, depth), '404.html'].join('/');
+    const file = lookupFile(site, candidate);
+    if (file) {
+      return { file, path: candidate };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serve the site's own 404 page, or a plain-text fallback
+ */
+async function serveNotFound(site, requestPath) {
+  const custom404 = site.settings.custom404 && lookupFile(site, site.settings.custom404);
+  const notFoundPage = custom404
+    ? { file: custom404, path: site.settings.custom404 }
+    : lookupNotFoundPage(site, requestPath);
+
+  if (notFoundPage) {
+    console.log('[Wisp SW] Serving custom 404 page:', notFoundPage.path, 'for', requestPath);
+    return serveFile(site, notFoundPage.file, notFoundPage.path, 404);
+  }
+
+  return new Response('File not found', {
+    status: 404,
+    headers: { 'Content-Type': 'text/plain' },
+  });
+}
+
+/**
+ * Serve a manifest file, rewriting HTML and CSS for the /wisp/ prefix
+ */
+async function serveFile(site, file, requestPath, status = 200) {
   // Fetch and return the blob
-  const response = await fetchBlobFromPDS(file.cid, file.mimeType);
+  const response = await fetchBlobFromPDS(site, file);
 
   // If it's HTML, inject the overlay script and base tag
   if (file.mimeType === 'text/html' ||
@@ -703,16 +1869,21 @@ async function handleFetch(event) {
       requestPath.endsWith('.htm')) {
 
     const htmlText = await response.text();
-    const htmlWithOverlay = injectOverlayScript(htmlText, path);
-
-    return new Response(htmlWithOverlay, {
-      headers: {
-        'Content-Type': 'text/html; charset=utf-8',
-        'Cache-Control': 'no-cache', // Don't cache HTML with injected script
-        'X-Wisp-Overlay': 'injected',
-        'X-Wisp-Base': pdsUrl, // Debug header
-      },
-    });
+    const nonce = createScriptNonce(site);
+    const htmlWithOverlay = injectOverlayScript(site, htmlText, requestPath, nonce);
+
+    return withScriptNonce(
+      new Response(htmlWithOverlay, {
+        status,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-cache', // Don't cache HTML with injected script
+          'X-Wisp-Overlay': 'injected',
+          'X-Wisp-Base': site.pdsUrl, // Debug header
+        },
+      }),
+      nonce
+    );
   }
 
   // If it's CSS, rewrite absolute URLs
@@ -721,9 +1892,10 @@ async function handleFetch(event) {
       requestPath.endsWith('.css')) {
 
     const cssText = await response.text();
-    const cssWithRewrittenUrls = rewriteCssUrls(cssText);
+    const cssWithRewrittenUrls = rewriteCssUrls(site, cssText);
 
     return new Response(cssWithRewrittenUrls, {
+      status,
       headers: {
         'Content-Type': 'text/css; charset=utf-8',
         'Cache-Control': 'public, max-age=3600',
@@ -732,60 +1904,255 @@ async function handleFetch(event) {
     });
   }
 
+  // If it's JavaScript, rewrite root-relative module specifiers
+  if ((file.mimeType && /javascript|ecmascript/.test(file.mimeType)) ||
+      requestPath.endsWith('.js') ||
+      requestPath.endsWith('.mjs')) {
+
+    const jsText = await response.text();
+    const jsWithRewrittenUrls = rewriteJsUrls(site, jsText);
+
+    return new Response(jsWithRewrittenUrls, {
+      status,
+      headers: {
+        'Content-Type': 'text/javascript; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+        'X-Wisp-Rewritten-Urls': 'true',
+      },
+    });
+  }
+
+  if (status !== 200) {
+    return new Response(response.body, { status, headers: response.headers });
+  }
+
   return response;
 }
 
+/**
+ * Check whether a message came from a site's page rather than the explorer
+ * The explorer's own pages are on this origin and outside /wisp/. This only turns away
+ * messages sent from site pages themselves: a site's script can still open one of this
+ * origin's other pages (/ or /sandbox.html) in a frame and post from there, so it is no
+ * protection against a site that wants to change its own safe or privacy mode. The
+ * sandbox origin keeps such a site away from the explorer, not from its own settings.
+ */
+function isSitePageSource(source) {
+  if (!source || !source.url) {
+    return true;
+  }
+  const url = new URL(source.url);
+  return (
+    url.protocol !== self.location.protocol ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith('/wisp/')
+  );
+}
+
 /**
  * Handle message from client
  */
 async function handleMessage(event) {
   const data = event.data;
 
+  if (STATE_CHANGING_MESSAGES.has(data.type) && isSitePageSource(event.source)) {
+    console.warn('[Wisp SW] Ignoring', data.type, 'from a site page:', event.source && event.source.url);
+    if (event.ports[0]) {
+      event.ports[0].postMessage({ success: false, error: `${data.type} can only be sent by the explorer` });
+    }
+    return;
+  }
+
   if (data.type === 'SET_MANIFEST') {
-    currentManifest = data.manifest;
-    pdsUrl = data.pdsUrl;
-    did = data.did;
-    currentHandle = data.handle || null;
-    currentSiteName = data.siteName || null;
+    // Adds the site (or replaces an earlier copy of it); other sites stay loaded
+    // Loads that don't choose safe or privacy mode (permalinks, bookmarks) keep the earlier choice
+    const previous = data.siteName ? await getSite(data.did, data.siteName) : null;
+    const settings = {
+      ...DEFAULT_SITE_SETTINGS,
+      ...data.settings,
+      safeMode: typeof data.safeMode === 'boolean' ? data.safeMode : !!previous?.settings.safeMode,
+      privacyMode: PRIVACY_MODES.includes(data.privacyMode)
+        ? data.privacyMode
+        : previous?.settings.privacyMode || DEFAULT_SITE_SETTINGS.privacyMode,
+    };
+    const site = {
+      manifest: data.manifest,
+      pdsUrl: data.pdsUrl,
+      did: data.did,
+      handle: data.handle || null,
+      siteName: data.siteName || null,
+      spaFallback: resolveSpaMode(data.manifest, data.spaMode, settings),
+      settings,
+      // Set when the site is shown in the explorer's iframe from a sandbox origin
+      embedderOrigin: data.embedderOrigin || null,
+      reportKey: data.embedderOrigin && typeof data.reportKey === 'string' ? data.reportKey : null,
+      privacyReport: null,
+      redirectRules: null,
+    };
+    const siteKey = getSiteKey(site.did, site.siteName);
+    sites.set(siteKey, site);
+    lastSiteKey = siteKey;
 
-    console.log('[Wisp SW] Manifest set:', { did, currentHandle, currentSiteName, pdsUrl });
+    console.log('[Wisp SW] Manifest set:', { siteKey, handle: site.handle, pdsUrl: site.pdsUrl, spaFallback: site.spaFallback, safeMode: settings.safeMode, privacyMode: settings.privacyMode });
 
     // Persist to IndexedDB
-    await storeManifest(data.manifest);
-    await storeSiteInfo({ pdsUrl, did, handle: currentHandle, siteName: currentSiteName });
+    await storeSite(site);
 
-    event.ports[0].postMessage({ type: 'MANIFEST_SET', success: true });
+    event.ports[0].postMessage({ type: 'MANIFEST_SET', success: true, siteInfo: getSiteInfo(site) });
   }
 
   if (data.type === 'CLEAR_MANIFEST') {
-    currentManifest = null;
-    pdsUrl = null;
-    did = null;
-    currentHandle = null;
-    currentSiteName = null;
+    // Clear one site when did/siteName are given, otherwise all of them
+    const siteKey = data.did && data.siteName ? getSiteKey(data.did, data.siteName) : null;
+
+    if (siteKey) {
+      sites.delete(siteKey);
+      if (lastSiteKey === siteKey) lastSiteKey = null;
+    } else {
+      sites.clear();
+      lastSiteKey = null;
+    }
+
+    await deleteStoredSites(siteKey);
 
-    if (db) {
-      const transaction = db.transaction(['manifests'], 'readwrite');
-      transaction.objectStore('manifests').delete(MANIFEST_KEY);
-      transaction.objectStore('manifests').delete(SITE_INFO_KEY);
+    // Without its manifest a site can't be browsed offline, so its blobs become evictable
+    if (siteKey) {
+      await unpinSite(siteKey);
     }
 
     event.ports[0].postMessage({ type: 'MANIFEST_CLEARED', success: true });
   }
 
-  if (data.type === 'CLEAR_CACHE') {
-    if (db) {
-      const transaction = db.transaction(['blobs'], 'readwrite');
-      transaction.objectStore('blobs').clear();
+  if (data.type === 'GET_SITE_FILES') {
+    const site = data.did && data.siteName ? await getSite(data.did, data.siteName) : null;
+    event.ports[0].postMessage(
+      site
+        ? {
+            type: 'SITE_FILES',
+            success: true,
+            files: collectManifestFiles(site.manifest).map(({ path, file }) => ({
+              path,
+              size: file.size,
+              mimeType: file.mimeType,
+            })),
+          }
+        : { type: 'SITE_FILES', success: false, error: 'Site is not loaded' }
+    );
+  }
+
+  if (data.type === 'GET_SOURCE') {
+    // The file behind a site path, as stored on the PDS (decompressed, not rewritten)
+    const port = event.ports[0];
+    const site = data.did && data.siteName ? await getSite(data.did, data.siteName) : null;
+    const resolved = site ? resolveSitePath(site, data.path || '') : null;
+
+    if (!site) {
+      port.postMessage({ type: 'SOURCE', success: false, error: 'Site is not loaded' });
+    } else if (!resolved || !resolved.file) {
+      const error = resolved && resolved.directory
+        ? 'This page is a directory listing generated by the explorer'
+        : 'No file at this path';
+      port.postMessage({ type: 'SOURCE', success: false, error });
+    } else {
+      try {
+        const response = await fetchBlobFromPDS(site, resolved.file);
+        port.postMessage({
+          type: 'SOURCE',
+          success: true,
+          path: data.path || '/',
+          mimeType: resolved.file.mimeType || 'application/octet-stream',
+          text: await response.text(),
+        });
+      } catch (error) {
+        port.postMessage({ type: 'SOURCE', success: false, error: error.message });
+      }
     }
+  }
+
+  if (data.type === 'CLEAR_CACHE') {
+    // Clear one site's blobs when did/siteName are given, otherwise all of them
+    const siteKey = data.did && data.siteName ? getSiteKey(data.did, data.siteName) : null;
+    await clearBlobCache(siteKey);
     event.ports[0].postMessage({ type: 'CACHE_CLEARED', success: true });
   }
 
+  if (data.type === 'PIN_SITE') {
+    // Progress is posted on the same port; SITE_PINNED ends the exchange
+    const port = event.ports[0];
+    const site = data.did && data.siteName ? await getSite(data.did, data.siteName) : null;
+
+    if (!site) {
+      port.postMessage({ type: 'SITE_PINNED', success: false, error: 'Site is not loaded' });
+      return;
+    }
+
+    const siteKey = getSiteKey(site.did, site.siteName);
+    if (pinning.has(siteKey)) {
+      port.postMessage({ type: 'SITE_PINNED', success: false, error: 'Site is already being saved' });
+      return;
+    }
+
+    pinning.add(siteKey);
+    await pinSite(site, (progress) => {
+      port.postMessage({ type: 'PIN_PROGRESS', ...progress });
+    })
+      .then((failed) => {
+        console.log('[Wisp SW] Site pinned:', { siteKey, failed: failed.length });
+        port.postMessage({ type: 'SITE_PINNED', success: failed.length === 0, failed });
+      })
+      .catch((error) => {
+        port.postMessage({ type: 'SITE_PINNED', success: false, error: error.message });
+      })
+      .finally(() => {
+        pinning.delete(siteKey);
+      });
+  }
+
+  if (data.type === 'UNPIN_SITE') {
+    await unpinSite(getSiteKey(data.did, data.siteName));
+    await enforceCacheBudget();
+    event.ports[0].postMessage({ type: 'SITE_UNPINNED', success: true });
+  }
+
+  if (data.type === 'GET_CACHE_STATS') {
+    event.ports[0].postMessage({ type: 'CACHE_STATS', stats: await getCacheStats() });
+  }
+
+  if (data.type === 'SET_CACHE_BUDGET') {
+    const budget = await setCacheBudget(data.budget || {});
+    await enforceCacheBudget();
+    event.ports[0].postMessage({ type: 'CACHE_BUDGET_SET', success: true, budget });
+  }
+
+  if (data.type === 'GET_PRIVACY_REPORT') {
+    const clientId = event.source && event.source.id;
+
+    if (typeof data.nonce === 'string') {
+      // Relayed for the explorer by a sandboxed page: the whole site's report, signed
+      const site = await getRequestingSite(clientId);
+      event.ports[0].postMessage({
+        type: 'PRIVACY_REPORT',
+        ...(site && site.reportKey ? await signPrivacyReport(site, data.nonce) : { payload: null, signature: null }),
+      });
+    } else {
+      // Pages ask for their own report; there is none until a third-party request is made
+      event.ports[0].postMessage({
+        type: 'PRIVACY_REPORT',
+        report: clientId ? getPrivacyReport(clientId) : null,
+      });
+    }
+  }
+
   if (data.type === 'GET_STATUS') {
+    // With did/siteName, report on that site (loading it from IndexedDB if needed)
+    const requested = data.did && data.siteName ? await getSite(data.did, data.siteName) : null;
+    const current = requested || (lastSiteKey && sites.get(lastSiteKey));
+
     event.ports[0].postMessage({
       type: 'STATUS',
-      hasManifest: !!currentManifest,
-      siteInfo: { pdsUrl, did, handle: currentHandle, siteName: currentSiteName },
+      hasManifest: data.did && data.siteName ? !!requested : sites.size > 0,
+      siteInfo: current ? getSiteInfo(current) : null,
+      sites: [...sites.values()].map(getSiteInfo),
     });
   }
 }
@@ -834,6 +2201,10 @@ self.addEventListener('fetch', (event) => {
 });
 
 // Message event
-self.addEventListener('message', handleMessage);
+self.addEventListener('message', (event) => {
+  // Keep the service worker alive until long-running messages (like PIN_SITE) finish
+  const handled = handleMessage(event);
+  if (event.waitUntil) event.waitUntil(handled);
+});
 
 console.log('[Wisp SW] Service worker loaded');
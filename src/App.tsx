@@ -5,20 +5,53 @@
  *
  * Routes:
  * - /: Resolver UI (landing page)
- * - /wisp/{did}/{siteName}/{path}: Handled by service worker - React renders minimal component
+ * - /?handle=&site=&path=: Opens a site directly, skipping the picker (with &reload=1,
+ *   its manifest is fetched from the PDS again; the overlay's Reload button uses this)
+ * - /wisp/{did}/{siteName}/{path}: Handled by service worker - React only loads the site
+ *   when the service worker doesn't have it yet (bookmarked or shared links)
+ * - /@{handle}/{site}/{path}: Permalink - loads the site and redirects to its /wisp/ path
+ *
+ * With VITE_SANDBOX_ORIGIN set, /wisp/ routes are always rendered by React, which
+ * shows the site in an iframe from the sandbox origin. A site opened from the
+ * resolver arrives there with its manifest and options in the router state.
  */
 
-import { useState, useEffect } from 'react';
-import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { ResolverUI, SiteRendererSW, ServiceWorkerDebug } from './components';
+import { useState, useEffect, useMemo } from 'react';
+import { Routes, Route, Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
+import {
+  ResolverUI,
+  SiteRendererSW,
+  ServiceWorkerDebug,
+  LoadingState,
+  ErrorDisplay,
+} from './components';
 import { useATProtoResolver } from './hooks/useATProtoResolver';
-import { useSitesFetcher, useManifestFetcherManual } from './hooks/useManifestFetcher';
+import {
+  useSitesFetcher,
+  useManifestFetcherManual,
+} from './hooks/useManifestFetcher';
+import type { SiteOptions } from './utils/serviceWorker';
+import type { ResolutionResult } from './types/atproto';
+import { isSandboxEnabled, unregisterExplorerServiceWorkers } from './utils/sandbox';
+import type { SandboxRouteState } from './components/SandboxFrame';
+
+/**
+ * Handle to label a site with, or '' to fall back to its DID
+ * Only handles that verify both ways are used, so a spoofed handle isn't
+ * repeated in the overlay or its copied links.
+ */
+function getVerifiedHandle(resolution: ResolutionResult): string {
+  return resolution.handleVerification === 'verified' && resolution.handle ? resolution.handle : '';
+}
 
 function ResolverWrapper() {
   const location = useLocation();
-  const [handle, setHandle] = useState<string>('');
+  const [handle, setHandle] = useState<string>(
+    () => new URLSearchParams(location.search).get('handle') || ''
+  );
   const [siteRkey, setSiteRkey] = useState<string>('');
   const [siteName, setSiteName] = useState<string>('');
+  const [siteOptions, setSiteOptions] = useState<SiteOptions>({});
   const [loading, setLoading] = useState<'idle' | 'resolving' | 'fetching'>('idle');
   const [error, setError] = useState<string | null>(null);
 
@@ -45,11 +78,23 @@ function ResolverWrapper() {
     siteRkey || undefined
   );
 
+  // Serving options for the service worker, including the site's settings record
+  const serveOptions = useMemo<SiteOptions>(
+    () => ({ ...siteOptions, settings: manifestState.settings }),
+    [siteOptions, manifestState.settings]
+  );
+
   // Handle loading a site
-  const handleLoad = async (loadedHandle: string, loadedSiteRkey: string, loadedSiteName: string) => {
+  const handleLoad = async (
+    loadedHandle: string,
+    loadedSiteRkey: string,
+    loadedSiteName: string,
+    loadedOptions: SiteOptions = {}
+  ) => {
     setHandle(loadedHandle);
     setSiteRkey(loadedSiteRkey);
     setSiteName(loadedSiteName);
+    setSiteOptions(loadedOptions);
     setLoading('resolving');
 
     // The resolver and manifest fetchers will automatically trigger
@@ -87,6 +132,21 @@ function ResolverWrapper() {
     setError(null);
   };
 
+  // A link with both handle and site skips the picker and opens the site directly
+  const query = new URLSearchParams(location.search);
+  const queryHandle = query.get('handle')?.replace(/^@/, '');
+  const querySite = query.get('site');
+  if (queryHandle && querySite) {
+    const queryPath = (query.get('path') || '').replace(/^\/+/, '');
+    return (
+      <Navigate
+        to={`/@${encodeURIComponent(queryHandle)}/${encodeURIComponent(querySite)}/${queryPath}`}
+        state={query.get('reload') ? { reload: true } : undefined}
+        replace
+      />
+    );
+  }
+
   // Show resolver UI
   if (!handle || loading === 'idle') {
     return (
@@ -193,9 +253,10 @@ function ResolverWrapper() {
       <SiteRendererSW
         pdsUrl={resolver.data.pdsUrl}
         did={resolver.data.did}
-        handle={handle}
+        handle={getVerifiedHandle(resolver.data)}
         siteName={siteName}
         manifest={manifestState.data}
+        options={serveOptions}
         onBack={handleBack}
       />
     );
@@ -204,58 +265,266 @@ function ResolverWrapper() {
   return null;
 }
 
+const BOOTSTRAP_RELOAD_KEY = 'wisp_bootstrap_reload';
+
 /**
- * SiteRouteWrapper - Minimal wrapper for /wisp/* routes
+ * SiteRouteWrapper - Wrapper for /wisp/* routes
  *
- * The service worker handles the actual content serving.
- * This component renders nothing (or minimal UI) so the service worker
- * can intercept and serve the site content.
+ * The service worker handles the actual content serving. React only renders
+ * here when the service worker didn't: either it isn't controlling the page
+ * yet, or it has no manifest for this site (a bookmarked or shared link).
+ * In that case the page moves to the site's permalink route, which loads the
+ * site from the DID's PDS and hands it to the service worker. That happens
+ * outside /wisp/ because the service worker ignores manifests sent from
+ * there, where site pages live.
  */
 function SiteRouteWrapper() {
   const location = useLocation();
+  const navigate = useNavigate();
+  const params = useParams<{ did: string; siteName: string; '*': string }>();
+  const [status, setStatus] = useState<'checking' | 'bootstrapping' | 'error'>('checking');
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     console.log('[App] Site route:', location.pathname);
 
-    // Check if service worker has a manifest loaded
-    // If not, the user might have bookmarked a /wisp/ URL
-    // We should redirect to the resolver
+    // /wisp/{did}/{siteName}/{path} → /@{did}/{siteName}/{path}
+    const loadFromPermalink = () => {
+      window.location.replace(
+        location.pathname.replace(/^\/wisp\//, '/@') + location.search + location.hash
+      );
+    };
+
+    // Check if service worker has this site's manifest loaded
     const checkSW = async () => {
-      if (navigator.serviceWorker && navigator.serviceWorker.controller) {
-        // Send a message to check status
-        const channel = new MessageChannel();
-        const timeout = setTimeout(() => {
-          channel.port1.close();
-          // No response, redirect to resolver
-          window.location.href = '/';
-        }, 1000);
-
-        channel.port1.onmessage = (event) => {
-          clearTimeout(timeout);
-          channel.port1.close();
-
-          if (!event.data.hasManifest) {
-            // No manifest loaded, redirect to resolver
-            console.log('[App] No manifest in SW, redirecting to resolver');
-            window.location.href = '/';
-          }
-        };
-
-        navigator.serviceWorker.controller.postMessage(
-          { type: 'GET_STATUS' },
-          [channel.port2]
-        );
+      if (isSandboxEnabled()) {
+        // Sites are served from the sandbox origin; the explorer has no service worker
+        setStatus('bootstrapping');
+        return;
       }
+
+      if (!navigator.serviceWorker || !navigator.serviceWorker.controller) {
+        // First visit: no service worker yet, load the site ourselves
+        loadFromPermalink();
+        return;
+      }
+
+      // Send a message to check status
+      const channel = new MessageChannel();
+      const timeout = setTimeout(() => {
+        channel.port1.close();
+        // No response, load the site ourselves
+        loadFromPermalink();
+      }, 1000);
+
+      channel.port1.onmessage = (event) => {
+        clearTimeout(timeout);
+        channel.port1.close();
+
+        if (!event.data.hasManifest) {
+          console.log('[App] No manifest in SW, loading site from PDS');
+          loadFromPermalink();
+          return;
+        }
+
+        // The site is loaded but this page came from the network; reload once
+        // so the service worker can serve it (unless we just tried that)
+        const lastReload = JSON.parse(sessionStorage.getItem(BOOTSTRAP_RELOAD_KEY) || 'null');
+        const justReloaded =
+          lastReload?.path === location.pathname && Date.now() - lastReload.at < 5000;
+
+        if (!justReloaded) {
+          sessionStorage.setItem(
+            BOOTSTRAP_RELOAD_KEY,
+            JSON.stringify({ path: location.pathname, at: Date.now() })
+          );
+          window.location.reload();
+        } else {
+          sessionStorage.removeItem(BOOTSTRAP_RELOAD_KEY);
+          setError('The service worker did not take over this page. Try reloading.');
+          setStatus('error');
+        }
+      };
+
+      navigator.serviceWorker.controller.postMessage(
+        { type: 'GET_STATUS', did: params.did, siteName: params.siteName },
+        [channel.port2]
+      );
     };
 
     checkSW();
-  }, [location.pathname]);
+  }, [location.pathname, location.search, location.hash, params.did, params.siteName]);
 
-  // Render nothing - service worker serves the content
-  return null;
+  if (status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="max-w-2xl w-full">
+          <ErrorDisplay
+            error={error || 'Failed to load site'}
+            onRetry={() => window.location.reload()}
+            onBack={() => navigate('/')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // Only reached in sandbox mode, where the explorer has no service worker to avoid
+  if (status === 'bootstrapping' && params.did && params.siteName) {
+    // Opened from the resolver: the site is loaded already, with the options chosen there
+    const sandboxSite = (location.state as SandboxRouteState | null)?.sandboxSite;
+    if (sandboxSite && sandboxSite.did === params.did && sandboxSite.siteName === params.siteName) {
+      return (
+        <SiteRendererSW
+          {...sandboxSite}
+          path={`${params['*'] || ''}${location.search}${location.hash}`}
+          onBack={() => navigate('/')}
+        />
+      );
+    }
+
+    return (
+      <SiteLoader
+        identifier={params.did}
+        siteName={params.siteName}
+        path={`${params['*'] || ''}${location.search}${location.hash}`}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <LoadingState stage="loading-site" message="Loading site..." />
+    </div>
+  );
+}
+
+/**
+ * PermalinkWrapper - Wrapper for /@{handle}/{site}/* routes
+ *
+ * Human-friendly links to a site. The handle is resolved, the site is loaded
+ * and the page redirects to the canonical /wisp/{did}/{siteName}/ path,
+ * keeping the sub-path and query string.
+ */
+function PermalinkWrapper() {
+  const location = useLocation();
+  const params = useParams<{ handle: string; site: string; '*': string }>();
+  const reload = !!(location.state as { reload?: boolean } | null)?.reload;
+
+  // React Router can't match a partial segment, so the @ is checked here
+  if (!params.handle?.startsWith('@') || params.handle.length < 2 || !params.site) {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <SiteLoader
+      identifier={params.handle.slice(1)}
+      siteName={params.site}
+      path={`${params['*'] || ''}${location.search}${location.hash}`}
+      reload={reload}
+    />
+  );
+}
+
+interface SiteLoaderProps {
+  /** Handle or DID that owns the site */
+  identifier: string;
+  /** Site name, or record key */
+  siteName: string;
+  /** Path within the site to open, including query and hash */
+  path: string;
+  /** Fetch the manifest from the PDS even if this session has a copy */
+  reload?: boolean;
+}
+
+/**
+ * SiteLoader - Resolves an identity, finds a site by name and hands it to the
+ * service worker, which then serves the requested path
+ */
+function SiteLoader({ identifier, siteName, path, reload = false }: SiteLoaderProps) {
+  const navigate = useNavigate();
+  const resolver = useATProtoResolver(identifier);
+  const sitesState = useSitesFetcher(resolver.data?.pdsUrl || null, resolver.data?.did || null);
+  const site =
+    sitesState.data.find((s) => s.site === siteName) ||
+    sitesState.data.find((s) => s.rkey === siteName);
+  const manifestState = useManifestFetcherManual(
+    site ? resolver.data?.pdsUrl || null : null,
+    site ? resolver.data?.did || null : null,
+    site?.rkey,
+    reload
+  );
+
+  // The sites list is empty until it has been fetched for this DID
+  const siteMissing =
+    !!resolver.data &&
+    sitesState.did === resolver.data.did &&
+    !sitesState.error &&
+    !site;
+
+  const error =
+    resolver.error ||
+    sitesState.error ||
+    manifestState.error ||
+    (siteMissing ? `Site '${siteName}' was not found for ${identifier}` : null);
+
+  const serveOptions = useMemo<SiteOptions>(
+    () => ({ settings: manifestState.settings }),
+    [manifestState.settings]
+  );
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="max-w-2xl w-full">
+          <ErrorDisplay
+            error={error}
+            onRetry={() => window.location.reload()}
+            onBack={() => navigate('/')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (resolver.data && site && manifestState.data) {
+    return (
+      <SiteRendererSW
+        pdsUrl={resolver.data.pdsUrl}
+        did={resolver.data.did}
+        handle={getVerifiedHandle(resolver.data)}
+        siteName={site.site}
+        manifest={manifestState.data}
+        options={serveOptions}
+        path={path}
+        onBack={() => navigate('/')}
+      />
+    );
+  }
+
+  const message = resolver.loading || !resolver.data
+    ? `Resolving ${identifier}...`
+    : manifestState.loading || site
+    ? 'Fetching site manifest...'
+    : 'Looking up site...';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <LoadingState stage="loading-site" message={message} />
+    </div>
+  );
 }
 
 function App() {
+  // Sites must not be served next to the explorer once they have a sandbox
+  useEffect(() => {
+    if (isSandboxEnabled()) {
+      unregisterExplorerServiceWorkers().catch((err) => {
+        console.error('[App] Failed to unregister service worker:', err);
+      });
+    }
+  }, []);
+
   return (
     <>
       <Routes>
@@ -266,6 +535,10 @@ function App() {
         {/* Pattern: /wisp/{did}/{siteName}/* */}
         <Route path="/wisp/:did/:siteName/*" element={<SiteRouteWrapper />} />
 
+        {/* Permalinks - resolve the handle, then redirect to /wisp/ */}
+        {/* Pattern: /@{handle}/{site}/* */}
+        <Route path="/:handle/:site/*" element={<PermalinkWrapper />} />
+
         {/* Catch-all - redirect to resolver */}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
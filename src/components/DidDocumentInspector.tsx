@@ -0,0 +1,112 @@
+/**
+ * DidDocumentInspector component
+ *
+ * Collapsible view of a resolved DID document: services, verification
+ * methods, alsoKnownAs entries and the raw JSON.
+ */
+
+import { useState } from 'react';
+import type { DidDocument } from '../types/atproto';
+
+export interface DidDocumentInspectorProps {
+  didDocument: DidDocument;
+}
+
+/**
+ * Render a service endpoint, which may be a URL string or a map of endpoints
+ */
+function formatServiceEndpoint(endpoint: string | Record<string, unknown>): string {
+  return typeof endpoint === 'string' ? endpoint : JSON.stringify(endpoint);
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  return (
+    <div className="mb-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+        {title} ({count})
+      </h4>
+      {count === 0 ? <p className="text-xs text-gray-400 italic">None</p> : children}
+    </div>
+  );
+}
+
+export function DidDocumentInspector({ didDocument }: DidDocumentInspectorProps) {
+  const [open, setOpen] = useState(false);
+  const [showRaw, setShowRaw] = useState(false);
+
+  const services = didDocument.service ?? [];
+  const verificationMethods = didDocument.verificationMethod ?? [];
+  const alsoKnownAs = didDocument.alsoKnownAs ?? [];
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-lg bg-white">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+      >
+        <span>DID document</span>
+        <span className="text-gray-400">{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 border-t border-gray-100 pt-3">
+          <Section title="Services" count={services.length}>
+            <ul className="space-y-2">
+              {services.map((service) => (
+                <li key={service.id} className="text-xs">
+                  <p className="font-mono text-gray-900">{service.id}</p>
+                  <p className="text-gray-500">{service.type}</p>
+                  <p className="font-mono text-sky-700 break-all">
+                    {formatServiceEndpoint(service.serviceEndpoint)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <Section title="Verification methods" count={verificationMethods.length}>
+            <ul className="space-y-2">
+              {verificationMethods.map((method) => (
+                <li key={method.id} className="text-xs">
+                  <p className="font-mono text-gray-900">{method.id}</p>
+                  <p className="text-gray-500">
+                    {method.type} · controller <span className="font-mono">{method.controller}</span>
+                  </p>
+                  {method.publicKeyMultibase && (
+                    <p className="font-mono text-gray-700 break-all">{method.publicKeyMultibase}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <Section title="Also known as" count={alsoKnownAs.length}>
+            <ul className="space-y-1">
+              {alsoKnownAs.map((aka) => (
+                <li key={aka} className="text-xs font-mono text-gray-900 break-all">
+                  {aka}
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <button
+            type="button"
+            onClick={() => setShowRaw(!showRaw)}
+            aria-expanded={showRaw}
+            className="text-xs text-sky-600 hover:text-sky-700"
+          >
+            {showRaw ? 'Hide raw JSON' : 'Show raw JSON'}
+          </button>
+          {showRaw && (
+            <pre className="mt-2 p-2 bg-gray-50 rounded text-xs font-mono text-gray-800 overflow-auto max-h-64">
+              {JSON.stringify(didDocument, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
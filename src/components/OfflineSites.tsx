@@ -0,0 +1,207 @@
+/**
+ * OfflineSites component
+ *
+ * Lists the sites loaded in the service worker and lets each one be saved
+ * for offline browsing. Saved sites have every blob pinned in the cache, so
+ * they keep working with no network, including after a browser restart.
+ * With the sandbox on, sites live in the sandbox origin's service worker,
+ * which the explorer can't reach, so this only says so.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { InlineError } from './ErrorDisplay';
+import { getSandboxOrigin } from '../utils/sandbox';
+import {
+  getSWManager,
+  type PinProgress,
+  type SiteCacheUsage,
+  type SiteInfo,
+} from '../utils/serviceWorker';
+
+interface OfflineSiteRow extends SiteCacheUsage {
+  handle?: string;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function getSiteKey(site: { did: string; siteName: string }): string {
+  return `${site.did}/${site.siteName}`;
+}
+
+export function OfflineSites() {
+  const [rows, setRows] = useState<OfflineSiteRow[]>([]);
+  const [progress, setProgress] = useState<Record<string, PinProgress>>({});
+  const [error, setError] = useState<string | null>(null);
+  const sandboxOrigin = getSandboxOrigin();
+
+  const refresh = useCallback(async () => {
+    const swManager = getSWManager();
+    const [status, stats] = await Promise.all([swManager.getStatus(), swManager.getCacheStats()]);
+    if (!stats) return;
+
+    const handles = new Map(status.sites.map((site: SiteInfo) => [getSiteKey(site), site.handle]));
+    setRows(
+      stats.sites
+        .filter((site) => site.loaded || site.pinnedBlobCount > 0)
+        .map((site) => ({ ...site, handle: handles.get(getSiteKey(site)) }))
+    );
+  }, []);
+
+  // Only talk to a service worker that is already installed; the landing page doesn't need one
+  useEffect(() => {
+    if (sandboxOrigin || !navigator.serviceWorker?.controller) return;
+
+    const swManager = getSWManager();
+    const ready = swManager.isReady() ? Promise.resolve(true) : swManager.register();
+    ready.then((registered) => {
+      if (registered) refresh();
+    });
+  }, [sandboxOrigin, refresh]);
+
+  const handlePin = async (site: OfflineSiteRow) => {
+    const siteKey = getSiteKey(site);
+    setError(null);
+    setProgress((prev) => ({ ...prev, [siteKey]: { done: 0, total: 0, failed: 0 } }));
+
+    try {
+      const result = await getSWManager().pinSite(site.did, site.siteName, (update) => {
+        setProgress((prev) => ({ ...prev, [siteKey]: update }));
+      });
+
+      if (result.error) {
+        setError(result.error);
+      } else if (result.failed.length > 0) {
+        setError(`${result.failed.length} files of ${site.siteName} couldn't be downloaded`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save site');
+    } finally {
+      setProgress((prev) => {
+        const next = { ...prev };
+        delete next[siteKey];
+        return next;
+      });
+      refresh();
+    }
+  };
+
+  const handleUnpin = async (site: OfflineSiteRow) => {
+    setError(null);
+    await getSWManager().unpinSite(site.did, site.siteName);
+    refresh();
+  };
+
+  if (sandboxOrigin) {
+    return (
+      <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+        <h2 className="text-sm font-medium text-gray-700 mb-2">Loaded sites</h2>
+        <p className="text-sm text-gray-500">
+          Sites are served from the sandbox at {sandboxOrigin}, so their cache can't be listed or saved for
+          offline browsing from here.
+        </p>
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+      <h2 className="text-sm font-medium text-gray-700 mb-3">Loaded sites</h2>
+
+      {error && (
+        <div className="mb-3">
+          <InlineError error={error} onDismiss={() => setError(null)} />
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {rows.map((site) => {
+          const siteKey = getSiteKey(site);
+          const current = progress[siteKey];
+          const saved =
+            site.pinnedBlobCount > 0 &&
+            (site.siteBlobCount === undefined || site.pinnedBlobCount >= site.siteBlobCount);
+
+          return (
+            <li key={siteKey} className="py-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={`/wisp/${site.did}/${site.siteName}/`}
+                    className="text-sm font-medium text-sky-700 hover:text-sky-800 truncate block"
+                  >
+                    {site.siteName}
+                  </a>
+                  <p className="text-xs text-gray-500 truncate">
+                    {site.handle || site.did} · {formatMegabytes(site.bytes)} cached
+                    {saved && ' · available offline'}
+                    {!saved && site.pinnedBlobCount > 0 &&
+                      ` · ${site.pinnedBlobCount} of ${site.siteBlobCount} files saved offline`}
+                  </p>
+                </div>
+
+                {current || site.pinning ? (
+                  <span className="text-xs text-gray-500 flex-shrink-0">Saving...</span>
+                ) : site.pinnedBlobCount > 0 ? (
+                  <div className="flex gap-2 flex-shrink-0">
+                    {!saved && site.loaded && (
+                      <button
+                        type="button"
+                        onClick={() => handlePin(site)}
+                        className="px-3 py-1 text-xs bg-sky-500 text-white rounded-lg hover:bg-sky-600 transition-colors"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleUnpin(site)}
+                      className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      Remove offline copy
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handlePin(site)}
+                    className="px-3 py-1 text-xs bg-sky-500 text-white rounded-lg hover:bg-sky-600 transition-colors flex-shrink-0"
+                  >
+                    Make available offline
+                  </button>
+                )}
+              </div>
+
+              {current && current.total > 0 && (
+                <div className="mt-2">
+                  <div
+                    className="h-1.5 bg-gray-100 rounded-full overflow-hidden"
+                    role="progressbar"
+                    aria-label={`Saving ${site.siteName}`}
+                    aria-valuemin={0}
+                    aria-valuemax={current.total}
+                    aria-valuenow={current.done}
+                  >
+                    <div
+                      className="h-full bg-sky-500 transition-all"
+                      style={{ width: `${(current.done / current.total) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {current.done} of {current.total} files
+                    {current.failed > 0 && ` (${current.failed} failed)`}
+                  </p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * PlcAuditLog component
+ *
+ * Collapsible timeline of did:plc operations from the PLC directory audit log.
+ * The log is only fetched once the panel is opened, and kept for as long as
+ * the component is mounted.
+ */
+
+import { useState } from 'react';
+import { usePlcAuditLog } from '../hooks/usePlcAuditLog';
+import { InlineLoading } from './LoadingState';
+import { InlineError } from './ErrorDisplay';
+import type { PlcChange, PlcChangeKind } from '../utils/plcAudit';
+
+export interface PlcAuditLogProps {
+  did: string;
+}
+
+const changeLabels: Record<PlcChangeKind, string> = {
+  created: 'Identity created',
+  handle: 'Handle changed',
+  pds: 'PDS moved',
+  'rotation-keys': 'Rotation keys changed',
+  'signing-key': 'Signing key changed',
+  tombstone: 'Identity tombstoned',
+};
+
+function ChangeRow({ change }: { change: PlcChange }) {
+  return (
+    <li className="text-xs">
+      <span className="font-medium text-gray-800">{changeLabels[change.kind]}</span>
+      {(change.from || change.to) && (
+        <p className="font-mono text-gray-600 break-all">
+          {change.from && <span className="line-through text-gray-400">{change.from}</span>}
+          {change.from && change.to && ' → '}
+          {change.to}
+        </p>
+      )}
+    </li>
+  );
+}
+
+export function PlcAuditLog({ did }: PlcAuditLogProps) {
+  const [open, setOpen] = useState(false);
+  // Stays set once the panel has been opened, so closing and reopening doesn't refetch
+  const [requested, setRequested] = useState(false);
+  const auditLog = usePlcAuditLog(requested ? did : null);
+
+  // Newest operations first
+  const timeline = [...auditLog.data].reverse();
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-lg bg-white">
+      <button
+        type="button"
+        onClick={() => {
+          setOpen(!open);
+          setRequested(true);
+        }}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+      >
+        <span>PLC history</span>
+        <span className="text-gray-400">{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 border-t border-gray-100 pt-3">
+          {auditLog.loading && <InlineLoading message="Fetching audit log..." size="sm" />}
+
+          {auditLog.error && <InlineError error={auditLog.error} />}
+
+          {!auditLog.loading && !auditLog.error && (
+            <ol className="relative border-l border-gray-200 ml-1 space-y-4">
+              {timeline.map((entry) => (
+                <li key={entry.cid} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border border-white ${
+                      entry.nullified ? 'bg-gray-300' : 'bg-sky-500'
+                    }`}
+                  />
+                  <p className="text-xs text-gray-500">
+                    <time dateTime={entry.createdAt}>{new Date(entry.createdAt).toLocaleString()}</time>
+                    {entry.nullified && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                        nullified
+                      </span>
+                    )}
+                  </p>
+                  {entry.changes.length > 0 ? (
+                    <ul className={`mt-1 space-y-1 ${entry.nullified ? 'opacity-60' : ''}`}>
+                      {entry.changes.map((change, i) => (
+                        <ChangeRow key={i} change={change} />
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-1 text-xs text-gray-400 italic">No visible changes</p>
+                  )}
+                  <p className="text-[10px] font-mono text-gray-400 truncate">{entry.cid}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
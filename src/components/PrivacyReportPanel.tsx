@@ -0,0 +1,43 @@
+/**
+ * PrivacyReportPanel component
+ *
+ * Lists the origins a sandboxed site's pages contacted while it is in privacy
+ * mode, and how many of those requests were blocked.
+ */
+
+import type { PrivacyMode, PrivacyReport } from '../utils/serviceWorker';
+
+export interface PrivacyReportPanelProps {
+  mode: PrivacyMode;
+  report: PrivacyReport | null;
+}
+
+export function PrivacyReportPanel({ mode, report }: PrivacyReportPanelProps) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3 text-xs text-gray-700 max-h-[50vh] overflow-auto">
+      <h3 className="font-semibold text-gray-900 mb-2">
+        Third-party requests ({mode === 'block' ? 'blocked' : 'logged'})
+      </h3>
+
+      {!report || report.origins.length === 0 ? (
+        <p className="text-gray-500">This site has not contacted any other origin since it was loaded.</p>
+      ) : (
+        <table className="w-full">
+          <tbody>
+            {report.origins.map((entry) => (
+              <tr key={entry.origin} className="border-t border-gray-100">
+                <td className="py-1 pr-3 font-mono break-all">{entry.origin}</td>
+                <td className="py-1 pr-3 whitespace-nowrap">
+                  {entry.requests} {entry.requests === 1 ? 'request' : 'requests'}
+                </td>
+                <td className="py-1 whitespace-nowrap text-red-700">
+                  {entry.blocked > 0 && `${entry.blocked} blocked`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
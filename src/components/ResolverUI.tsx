@@ -9,16 +9,61 @@ import { useATProtoResolver } from '../hooks/useATProtoResolver';
 import { useSitesFetcher } from '../hooks/useManifestFetcher';
 import { InlineLoading } from './LoadingState';
 import { InlineError } from './ErrorDisplay';
+import { DidDocumentInspector } from './DidDocumentInspector';
+import { PlcAuditLog } from './PlcAuditLog';
+import { OfflineSites } from './OfflineSites';
+import type { HandleResolutionMethod, HandleVerificationStatus } from '../types/atproto';
+import type { PrivacyMode, SiteOptions, SpaMode } from '../utils/serviceWorker';
 
 export interface ResolverUIProps {
   initialHandle?: string;
-  onLoad?: (handle: string, siteRkey: string, siteName: string) => void;
+  onLoad?: (handle: string, siteRkey: string, siteName: string, options?: SiteOptions) => void;
+}
+
+const resolutionMethodLabels: Record<HandleResolutionMethod, string> = {
+  dns: 'DNS TXT record',
+  'well-known': '/.well-known/atproto-did',
+  appview: 'Bluesky AppView',
+  did: 'DID document',
+};
+
+/**
+ * Badge showing whether the handle and DID point at each other
+ */
+function VerificationBadge({ status }: { status?: HandleVerificationStatus }) {
+  if (status === 'verified') {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs font-medium"
+        title="The handle resolves to this DID and the DID document claims the handle"
+      >
+        ✓ verified
+      </span>
+    );
+  }
+
+  if (status === 'unverified') {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium"
+        title="The handle and DID do not point at each other"
+      >
+        ⚠ unverified
+      </span>
+    );
+  }
+
+  // DID with no claimed handle: nothing to verify
+  return <span className="text-green-500">✓</span>;
 }
 
 export function ResolverUI({ initialHandle = '', onLoad }: ResolverUIProps) {
   const [handleInput, setHandleInput] = useState(initialHandle);
   const [debouncedInput, setDebouncedInput] = useState(initialHandle);
   const [selectedSite, setSelectedSite] = useState<{ rkey: string; name: string } | null>(null);
+  const [spaMode, setSpaMode] = useState<SpaMode>('auto');
+  const [safeMode, setSafeMode] = useState(false);
+  const [privacyMode, setPrivacyMode] = useState<PrivacyMode>('off');
 
   // Debounce input to avoid excessive resolution requests
   useEffect(() => {
@@ -63,7 +108,7 @@ export function ResolverUI({ initialHandle = '', onLoad }: ResolverUIProps) {
     const handle = resolverState.data.handle || handleInput.trim();
 
     // Trigger load callback with rkey (for fetching) and name (for URL)
-    onLoad?.(handle, siteInfo.rkey, siteInfo.name);
+    onLoad?.(handle, siteInfo.rkey, siteInfo.name, { spaMode, safeMode, privacyMode });
   };
 
   // Handle input change
@@ -144,13 +189,38 @@ export function ResolverUI({ initialHandle = '', onLoad }: ResolverUIProps) {
                         <p className="text-xs text-sky-600 truncate">
                           PDS: {resolverState.data.pdsUrl}
                         </p>
+                        {resolverState.data.resolutionMethod && (
+                          <p className="text-xs text-sky-600 truncate">
+                            Resolved via: {resolutionMethodLabels[resolverState.data.resolutionMethod]}
+                          </p>
+                        )}
                       </div>
                       <div className="ml-2 flex-shrink-0">
-                        <span className="text-green-500">✓</span>
+                        <VerificationBadge status={resolverState.data.handleVerification} />
                       </div>
                     </div>
+                    {resolverState.data.handleVerification === 'unverified' && (
+                      <div className="mt-3 bg-amber-50 border border-amber-300 rounded-lg p-3 flex items-start gap-2">
+                        <span className="text-amber-500 mt-0.5">⚠️</span>
+                        <p className="text-amber-800 text-xs">
+                          <strong>Handle not verified.</strong>{' '}
+                          {resolverState.data.handle
+                            ? `The DID document for ${resolverState.data.did} does not list at://${resolverState.data.handle}, so this handle and DID do not point at each other.`
+                            : `The handle claimed by ${resolverState.data.did} does not resolve back to it.`}{' '}
+                          This account may be impersonating someone else.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
+
+                {resolverState.data?.didDocument && (
+                  <DidDocumentInspector didDocument={resolverState.data.didDocument} />
+                )}
+
+                {resolverState.data?.did.startsWith('did:plc:') && (
+                  <PlcAuditLog did={resolverState.data.did} />
+                )}
               </div>
             )}
 
@@ -189,6 +259,55 @@ export function ResolverUI({ initialHandle = '', onLoad }: ResolverUIProps) {
               </div>
             )}
 
+            {/* Serving options */}
+            {resolverState.data && sitesState.data && sitesState.data.length > 0 && (
+              <div className="mb-4">
+                <label htmlFor="spa-mode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Single-page app fallback
+                </label>
+                <select
+                  id="spa-mode"
+                  value={spaMode}
+                  onChange={(e) => setSpaMode(e.target.value as SpaMode)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm"
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value="on">On: serve index.html for unknown routes</option>
+                  <option value="off">Off</option>
+                </select>
+
+                <label className="flex items-start gap-2 mt-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={safeMode}
+                    onChange={(e) => setSafeMode(e.target.checked)}
+                    className="mt-0.5 rounded border-gray-300 text-sky-500 focus:ring-sky-500"
+                  />
+                  <span>
+                    <span className="font-medium">Safe mode</span>
+                    <span className="block text-xs text-gray-500">
+                      Read the site without running its JavaScript. Third-party frames and form
+                      submissions are blocked too.
+                    </span>
+                  </span>
+                </label>
+
+                <label htmlFor="privacy-mode" className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                  Requests to other origins
+                </label>
+                <select
+                  id="privacy-mode"
+                  value={privacyMode}
+                  onChange={(e) => setPrivacyMode(e.target.value as PrivacyMode)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm"
+                >
+                  <option value="off">Allow</option>
+                  <option value="log">Allow and list them in a privacy report</option>
+                  <option value="block">Block them and list them in a privacy report</option>
+                </select>
+              </div>
+            )}
+
             {/* Submit button */}
             <button
               type="submit"
@@ -200,6 +319,9 @@ export function ResolverUI({ initialHandle = '', onLoad }: ResolverUIProps) {
           </form>
         </div>
 
+        {/* Sites in the service worker, with offline saving */}
+        <OfflineSites />
+
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-gray-500">
           <p>
@@ -0,0 +1,318 @@
+/**
+ * SandboxFrame - Shows a wisp site from the sandbox origin in an iframe
+ *
+ * Used instead of navigating to the site when VITE_SANDBOX_ORIGIN is set.
+ * The manifest goes to the sandbox's own service worker over postMessage
+ * (see utils/sandbox.ts), and the explorer's URL follows the page shown in
+ * the frame, so /wisp/ links keep working as bookmarks. Moving to that URL
+ * remounts the frame under the /wisp/ route, so the loaded site and the
+ * options chosen for it travel along in the router state (SandboxRouteState).
+ *
+ * Sandboxed pages get no overlay, so the bar above the frame offers its
+ * reload; the file tree, source view and site switcher aren't available.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { LoadingState } from './LoadingState';
+import { ErrorDisplay } from './ErrorDisplay';
+import { PrivacyReportPanel } from './PrivacyReportPanel';
+import {
+  SANDBOX_IFRAME_PERMISSIONS,
+  createReportKey,
+  createReportNonce,
+  getExplorerOrigin,
+  getSandboxFrameUrl,
+  verifyPrivacyReport,
+  type SandboxLoadSiteMessage,
+  type SandboxMessage,
+} from '../utils/sandbox';
+import type { SiteRendererSWProps } from './SiteRendererSW';
+import type { PrivacyReport, SiteInfo } from '../utils/serviceWorker';
+
+export interface SandboxFrameProps extends SiteRendererSWProps {
+  sandboxOrigin: string;
+}
+
+/**
+ * Router state for a site's /wisp/ route when the frame moved there itself
+ */
+export interface SandboxRouteState {
+  sandboxSite: Omit<SiteRendererSWProps, 'path' | 'onBack'>;
+}
+
+// How long to wait for the sandbox page to register its service worker
+const SANDBOX_READY_TIMEOUT = 15000;
+// How often an open privacy report is refreshed
+const PRIVACY_REPORT_INTERVAL = 2000;
+
+export function SandboxFrame({
+  sandboxOrigin,
+  pdsUrl,
+  did,
+  handle,
+  siteName,
+  manifest,
+  options,
+  path = '/',
+  onBack,
+}: SandboxFrameProps) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const sandboxReady = useRef(false);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [siteInfo, setSiteInfo] = useState<SiteInfo | null>(null);
+  const [privacyOpen, setPrivacyOpen] = useState(false);
+  const [privacyReport, setPrivacyReport] = useState<PrivacyReport | null>(null);
+  // Reports come back through the site's window, so only signed answers to our latest request count
+  const [reportKey] = useState(createReportKey);
+  const reportNonce = useRef<string | null>(null);
+
+  // The frame navigates on its own after the first load; later path changes come from it
+  const [initialPath] = useState(path);
+  const [frameUrl] = useState(() => getSandboxFrameUrl(sandboxOrigin));
+
+  // Don't URL encode - DID and siteName are valid in URL paths
+  const siteBase = `/wisp/${did}/${siteName}/`;
+  const onSiteRoute = location.pathname.startsWith(siteBase);
+  const routeState = useMemo<SandboxRouteState>(
+    () => ({ sandboxSite: { pdsUrl, did, handle, siteName, manifest, options } }),
+    [pdsUrl, did, handle, siteName, manifest, options]
+  );
+
+  // Show the site under its /wisp/ URL so the address bar can be bookmarked
+  useEffect(() => {
+    if (!onSiteRoute) {
+      navigate(siteBase + initialPath.replace(/^\//, ''), { state: routeState });
+    }
+  }, [onSiteRoute, navigate, siteBase, initialPath, routeState]);
+
+  useEffect(() => {
+    if (!onSiteRoute) return;
+
+    // The sandbox only talks to the explorer origin it was built for
+    const explorerOrigin = getExplorerOrigin();
+    if (explorerOrigin !== window.location.origin) {
+      setError(
+        `The sandbox only accepts sites from ${explorerOrigin ?? 'the origin in VITE_EXPLORER_ORIGIN'}, ` +
+          `not from ${window.location.origin}. Set VITE_EXPLORER_ORIGIN to this origin.`
+      );
+      setStatus('error');
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      if (sandboxReady.current) return;
+      setError(`The sandbox at ${sandboxOrigin} didn't respond. Check that it serves this app.`);
+      setStatus('error');
+    }, SANDBOX_READY_TIMEOUT);
+
+    const handleMessage = (event: MessageEvent<SandboxMessage>) => {
+      if (event.origin !== sandboxOrigin || event.source !== iframeRef.current?.contentWindow) {
+        return;
+      }
+
+      switch (event.data?.type) {
+        case 'WISP_SANDBOX_READY': {
+          sandboxReady.current = true;
+          const message: SandboxLoadSiteMessage = {
+            type: 'WISP_LOAD_SITE',
+            manifest,
+            pdsUrl,
+            did,
+            handle,
+            siteName,
+            spaMode: options?.spaMode ?? 'auto',
+            settings: options?.settings ?? null,
+            safeMode: options?.safeMode,
+            privacyMode: options?.privacyMode,
+            reportKey,
+            path: initialPath,
+          };
+          iframeRef.current?.contentWindow?.postMessage(message, sandboxOrigin);
+          break;
+        }
+
+        case 'WISP_SITE_LOADED':
+          sessionStorage.setItem(
+            'wisp_resolver_state',
+            JSON.stringify({ handle, did, pdsUrl, siteName })
+          );
+          setSiteInfo(event.data.siteInfo);
+          setStatus('ready');
+          break;
+
+        case 'WISP_SANDBOX_ERROR':
+          setError(event.data.error);
+          setStatus('error');
+          break;
+
+        case 'WISP_LOCATION': {
+          // The frame's navigation already added a history entry, so replace ours
+          const framePath = event.data.path;
+          const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+          if (typeof framePath === 'string' && framePath.startsWith(siteBase) && framePath !== current) {
+            navigate(framePath, { replace: true, state: routeState });
+          }
+          break;
+        }
+
+        case 'WISP_PRIVACY_REPORT': {
+          const nonce = reportNonce.current;
+          if (!nonce) break;
+
+          verifyPrivacyReport(reportKey, nonce, event.data.payload, event.data.signature).then((report) => {
+            if (!report) {
+              console.warn('[Sandbox] Ignoring a privacy report that was not signed by the sandbox');
+            } else if (reportNonce.current === nonce) {
+              setPrivacyReport(report);
+            }
+          });
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [
+    onSiteRoute,
+    sandboxOrigin,
+    manifest,
+    pdsUrl,
+    did,
+    handle,
+    siteName,
+    options,
+    reportKey,
+    initialPath,
+    siteBase,
+    routeState,
+    navigate,
+  ]);
+
+  // Ask for the site's report while the panel is open
+  useEffect(() => {
+    if (!privacyOpen) return;
+
+    const requestReport = () => {
+      reportNonce.current = createReportNonce();
+      iframeRef.current?.contentWindow?.postMessage(
+        { type: 'WISP_GET_PRIVACY_REPORT', nonce: reportNonce.current },
+        sandboxOrigin
+      );
+    };
+    requestReport();
+    const interval = setInterval(requestReport, PRIVACY_REPORT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [privacyOpen, sandboxOrigin]);
+
+  const privacyMode = siteInfo?.privacyMode ?? 'off';
+
+  // Fetch the site from its PDS again, through the resolver like the overlay's Reload
+  const handleReload = () => {
+    const params = new URLSearchParams({
+      handle: did,
+      site: siteName,
+      path: location.pathname.slice(siteBase.length) + location.search + location.hash,
+      reload: '1',
+    });
+    window.location.assign(`/?${params}`);
+  };
+
+  if (status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="max-w-2xl w-full">
+          <ErrorDisplay
+            error={error || 'Failed to load site'}
+            onRetry={() => window.location.reload()}
+            onBack={onBack}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (!onSiteRoute) {
+    return <LoadingState stage="loading-site" message="Loading site..." />;
+  }
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-white">
+      <div className="flex items-center gap-3 px-3 h-10 border-b border-gray-200 bg-gray-50 text-sm flex-shrink-0">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-3 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          ← Back to Resolver
+        </button>
+        <span className="font-medium text-gray-900 truncate">{siteName}</span>
+        {handle && <span className="text-gray-500 truncate">@{handle}</span>}
+        {siteInfo?.safeMode && (
+          <span
+            className="px-2 py-0.5 text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-300 rounded-lg flex-shrink-0"
+            title="Site scripts, third-party frames and forms are blocked"
+          >
+            Safe mode
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={handleReload}
+          title="Fetch the site from its PDS again"
+          className="px-3 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors flex-shrink-0"
+        >
+          Reload
+        </button>
+        {privacyMode !== 'off' && (
+          <div className="relative flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setPrivacyOpen((open) => !open)}
+              aria-expanded={privacyOpen}
+              className="px-3 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Privacy report
+            </button>
+            {privacyOpen && (
+              <div className="absolute left-0 top-full mt-1 z-10 w-96 max-w-[90vw]">
+                <PrivacyReportPanel mode={privacyMode} report={privacyReport} />
+              </div>
+            )}
+          </div>
+        )}
+        <span
+          className="ml-auto text-xs text-gray-400 truncate"
+          title={
+            `Scripts on this site run on ${sandboxOrigin}, not on the explorer's origin. ` +
+            "The overlay's file tree, source view and site switcher aren't available for sandboxed sites."
+          }
+        >
+          sandboxed
+        </span>
+      </div>
+
+      <div className="relative flex-1">
+        <iframe
+          ref={iframeRef}
+          src={frameUrl}
+          sandbox={SANDBOX_IFRAME_PERMISSIONS}
+          title={siteName}
+          className="absolute inset-0 w-full h-full border-0"
+        />
+        {status === 'loading' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white">
+            <LoadingState stage="loading-site" message="Loading site..." />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { getSandboxOrigin } from '../utils/sandbox';
 
 export function ServiceWorkerDebug() {
   const [status, setStatus] = useState<{
@@ -14,15 +15,25 @@ export function ServiceWorkerDebug() {
     scope: string | null;
     hasManifest: boolean;
     siteInfo: any;
+    siteCount: number;
+    cacheBytes: number | null;
+    cacheBudget: number | null;
   }>({
     ready: false,
     controlled: false,
     scope: null,
     hasManifest: false,
     siteInfo: null,
+    siteCount: 0,
+    cacheBytes: null,
+    cacheBudget: null,
   });
+  const sandboxOrigin = getSandboxOrigin();
 
   useEffect(() => {
+    // The sandbox's service worker is on another origin; there is nothing to poll here
+    if (sandboxOrigin) return;
+
     const checkStatus = async () => {
       if (!('serviceWorker' in navigator)) {
         setStatus(prev => ({ ...prev, ready: false }));
@@ -44,6 +55,7 @@ export function ServiceWorkerDebug() {
             ...prev,
             hasManifest: event.data.hasManifest || false,
             siteInfo: event.data.siteInfo,
+            siteCount: event.data.sites?.length || 0,
           }));
         };
 
@@ -51,13 +63,27 @@ export function ServiceWorkerDebug() {
           { type: 'GET_STATUS' },
           [channel.port2]
         );
+
+        const cacheChannel = new MessageChannel();
+        cacheChannel.port1.onmessage = (event) => {
+          setStatus(prev => ({
+            ...prev,
+            cacheBytes: event.data.stats?.totalBytes ?? null,
+            cacheBudget: event.data.stats?.budget?.maxBytes ?? null,
+          }));
+        };
+
+        navigator.serviceWorker.controller.postMessage(
+          { type: 'GET_CACHE_STATS' },
+          [cacheChannel.port2]
+        );
       }
     };
 
     checkStatus();
     const interval = setInterval(checkStatus, 2000);
     return () => clearInterval(interval);
-  }, []);
+  }, [sandboxOrigin]);
 
   // Only show in development
   if (import.meta.env.PROD) {
@@ -80,15 +106,28 @@ export function ServiceWorkerDebug() {
       overflow: 'auto',
     }}>
       <div><strong>Service Worker Debug</strong></div>
-      <div>Ready: {status.ready ? '✓' : '✗'}</div>
-      <div>Controlled: {status.controlled ? '✓' : '✗'}</div>
-      <div>Scope: {status.scope || 'none'}</div>
-      <div>Has Manifest: {status.hasManifest ? '✓' : '✗'}</div>
-      {status.siteInfo && (
-        <div>
-          <div>DID: {status.siteInfo.did?.substring(0, 20)}...</div>
-          <div>Site: {status.siteInfo.siteName}</div>
-        </div>
+      {sandboxOrigin ? (
+        <div>Sandboxed: sites are served by the service worker on {sandboxOrigin}, which this panel can't see</div>
+      ) : (
+        <>
+          <div>Ready: {status.ready ? '✓' : '✗'}</div>
+          <div>Controlled: {status.controlled ? '✓' : '✗'}</div>
+          <div>Scope: {status.scope || 'none'}</div>
+          <div>Has Manifest: {status.hasManifest ? '✓' : '✗'}</div>
+          <div>Sites loaded: {status.siteCount}</div>
+          {status.cacheBytes !== null && (
+            <div>
+              Blob cache: {(status.cacheBytes / 1024 / 1024).toFixed(1)} MB
+              {status.cacheBudget !== null && ` / ${(status.cacheBudget / 1024 / 1024).toFixed(0)} MB`}
+            </div>
+          )}
+          {status.siteInfo && (
+            <div>
+              <div>DID: {status.siteInfo.did?.substring(0, 20)}...</div>
+              <div>Site: {status.siteInfo.siteName}</div>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
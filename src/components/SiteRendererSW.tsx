@@ -6,12 +6,16 @@
  * - Native CSS and script loading
  * - Working relative paths
  * - Proper browser back button
+ *
+ * With a sandbox origin configured, the site is shown in a SandboxFrame instead.
  */
 
 import { useState, useEffect } from 'react';
 import { LoadingState } from './LoadingState';
 import { ErrorDisplay } from './ErrorDisplay';
-import { getSWManager } from '../utils/serviceWorker';
+import { SandboxFrame } from './SandboxFrame';
+import { getSandboxOrigin } from '../utils/sandbox';
+import { getSWManager, type SiteOptions } from '../utils/serviceWorker';
 import type { WispDirectory } from '../types/lexicon';
 
 export interface SiteRendererSWProps {
@@ -20,6 +24,8 @@ export interface SiteRendererSWProps {
   handle: string;
   siteName: string;
   manifest: WispDirectory;
+  options?: SiteOptions;
+  path?: string; // Path (with query string) within the site to open
   onBack: () => void;
 }
 
@@ -29,12 +35,18 @@ export function SiteRendererSW({
   handle,
   siteName,
   manifest,
+  options,
+  path = '/',
   onBack,
 }: SiteRendererSWProps) {
   const [status, setStatus] = useState<'loading' | 'navigating' | 'error'>('loading');
   const [error, setError] = useState<string | null>(null);
+  const sandboxOrigin = getSandboxOrigin();
 
   useEffect(() => {
+    // The sandbox's own service worker serves the site
+    if (sandboxOrigin) return;
+
     async function loadSite() {
       const swManager = getSWManager();
 
@@ -75,7 +87,7 @@ export function SiteRendererSW({
         }
 
         // Set the manifest in the service worker
-        const manifestSet = await swManager.setManifest(manifest, pdsUrl, did, handle, siteName);
+        const manifestSet = await swManager.setManifest(manifest, pdsUrl, did, handle, siteName, options);
 
         if (!manifestSet) {
           throw new Error('Failed to set manifest in service worker');
@@ -117,9 +129,14 @@ export function SiteRendererSW({
 
         // Navigate to the wisp site
         // Don't URL encode - DID and siteName are valid in URL paths
-        const wispPath = `/wisp/${did}/${siteName}/`;
+        const wispPath = `/wisp/${did}/${siteName}/${path.replace(/^\//, '')}`;
         console.log('[SiteRendererSW] Navigating to:', wispPath);
-        window.location.href = wispPath;
+        if (window.location.pathname.startsWith('/@')) {
+          // Permalinks only load the site; going back should skip them
+          window.location.replace(wispPath);
+        } else {
+          window.location.href = wispPath;
+        }
 
         // Note: The component will unmount as we navigate away
       } catch (err) {
@@ -130,7 +147,23 @@ export function SiteRendererSW({
     }
 
     loadSite();
-  }, [manifest, pdsUrl, did, handle, siteName]);
+  }, [sandboxOrigin, manifest, pdsUrl, did, handle, siteName, options, path]);
+
+  if (sandboxOrigin) {
+    return (
+      <SandboxFrame
+        sandboxOrigin={sandboxOrigin}
+        pdsUrl={pdsUrl}
+        did={did}
+        handle={handle}
+        siteName={siteName}
+        manifest={manifest}
+        options={options}
+        path={path}
+        onBack={onBack}
+      />
+    );
+  }
 
   if (status === 'error') {
     return (
@@ -29,7 +29,21 @@ export type {
   ErrorFallbackProps,
 } from './ErrorDisplay';
 
+export { DidDocumentInspector } from './DidDocumentInspector';
+export type { DidDocumentInspectorProps } from './DidDocumentInspector';
+
+export { PlcAuditLog } from './PlcAuditLog';
+export type { PlcAuditLogProps } from './PlcAuditLog';
+
 export { SiteRendererSW } from './SiteRendererSW';
 export type { SiteRendererSWProps } from './SiteRendererSW';
 
+export { SandboxFrame } from './SandboxFrame';
+export type { SandboxFrameProps } from './SandboxFrame';
+
+export { PrivacyReportPanel } from './PrivacyReportPanel';
+export type { PrivacyReportPanelProps } from './PrivacyReportPanel';
+
+export { OfflineSites } from './OfflineSites';
+
 export { ServiceWorkerDebug } from './ServiceWorkerDebug';
@@ -2,15 +2,27 @@
  * React hook for ATProto handle/DID resolution
  *
  * This hook handles the complete resolution chain:
- * - Handle → DID (via PLC Directory)
+ * - Handle → DID (via DNS TXT, /.well-known/atproto-did, then the AppView)
  * - DID → PDS endpoint (via DID document)
+ * - Bidirectional handle verification (DID document alsoKnownAs)
  * - Caching with sessionStorage
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { resolveHandleToDid, getPdsEndpoint } from '../utils/atproto';
+import {
+  resolveHandleToDid,
+  fetchDidDocument,
+  getPdsEndpointFromDocument,
+  getHandlesFromDocument,
+  verifyHandleInDocument,
+} from '../utils/atproto';
 import { withRetry } from '../utils/retry';
-import type { ResolutionResult } from '../types/atproto';
+import {
+  ResolutionError,
+  type HandleResolutionMethod,
+  type HandleVerificationStatus,
+  type ResolutionResult,
+} from '../types/atproto';
 
 export interface ResolverState {
   data: ResolutionResult | null;
@@ -134,20 +146,49 @@ export function useATProtoResolver(input: string | null): ResolverState {
     try {
       let did: string;
       let handle: string | undefined;
+      let resolutionMethod: HandleResolutionMethod | undefined;
+      let handleVerification: HandleVerificationStatus | undefined;
 
       if (parsed.type === 'handle') {
         handle = parsed.value;
-        did = await withRetry(() => resolveHandleToDid(handle!));
+        const resolution = await withRetry(() => resolveHandleToDid(handle!));
+        did = resolution.did;
+        resolutionMethod = resolution.method;
       } else {
         did = parsed.value;
       }
 
-      const pdsUrl = await withRetry(() => getPdsEndpoint(did));
+      const didDocument = await withRetry(() => fetchDidDocument(did));
+      const pdsUrl = getPdsEndpointFromDocument(did, didDocument);
+
+      if (handle) {
+        // Handle → DID is done; check that the DID claims the handle back
+        handleVerification = verifyHandleInDocument(handle, didDocument);
+      } else {
+        // DID input: only trust the claimed handle if it resolves back to this DID
+        const [claimedHandle] = getHandlesFromDocument(didDocument);
+        if (claimedHandle) {
+          try {
+            const resolution = await resolveHandleToDid(claimedHandle);
+            if (resolution.did === did) {
+              handle = claimedHandle;
+              handleVerification = 'verified';
+            } else {
+              handleVerification = 'unverified';
+            }
+          } catch {
+            handleVerification = 'unverified';
+          }
+        }
+      }
 
       const result: ResolutionResult = {
         handle,
         did,
         pdsUrl,
+        resolutionMethod,
+        handleVerification,
+        didDocument,
       };
 
       // Cache the result
@@ -160,8 +201,10 @@ export function useATProtoResolver(input: string | null): ResolverState {
       if (error instanceof Error) {
         errorMessage = error.message;
 
-        // Add specific error messages
-        if (error.message.includes('Failed to resolve handle')) {
+        // Add specific error messages (resolution errors are already precise)
+        if (error instanceof ResolutionError) {
+          errorMessage = error.message;
+        } else if (error.message.includes('Failed to resolve handle')) {
           errorMessage = `Handle '${parsed.value}' not found or does not exist`;
         } else if (error.message.includes('Could not find PDS endpoint')) {
           errorMessage = `No PDS found for this account`;
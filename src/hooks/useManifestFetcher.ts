@@ -6,9 +6,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { fetchWispManifest, fetchWispSites, fetchWispSiteManifest } from '../utils/atproto';
+import {
+  fetchWispManifest,
+  fetchWispSites,
+  fetchWispSiteManifest,
+  fetchWispSiteSettings,
+} from '../utils/atproto';
 import { withRetry } from '../utils/retry';
-import type { WispDirectory } from '../types/lexicon';
+import type { WispDirectory, WispSiteSettings } from '../types/lexicon';
 import type { WispSiteInfo } from '../types/atproto';
 
 export interface ManifestFetcherState {
@@ -16,12 +21,14 @@ export interface ManifestFetcherState {
   loading: boolean;
   error: string | null;
   recordCount?: number;
+  settings?: WispSiteSettings | null; // place.wisp.settings for the site, null if it has none
 }
 
 export interface SitesFetcherState {
   data: WispSiteInfo[];
   loading: boolean;
   error: string | null;
+  did: string | null; // DID the sites were fetched for, set once fetching finishes
 }
 
 const CACHE_KEY_PREFIX = 'wisp_manifest_';
@@ -47,7 +54,10 @@ function getSitesCacheKey(did: string): string {
 /**
  * Load manifest from sessionStorage cache
  */
-function loadFromCache(did: string, siteRkey?: string): { manifest: WispDirectory; recordCount: number } | null {
+function loadFromCache(
+  did: string,
+  siteRkey?: string
+): { manifest: WispDirectory; recordCount: number; settings: WispSiteSettings | null } | null {
   try {
     const cached = sessionStorage.getItem(getCacheKey(did, siteRkey));
     if (!cached) {
@@ -66,6 +76,7 @@ function loadFromCache(did: string, siteRkey?: string): { manifest: WispDirector
     return {
       manifest: entry.data,
       recordCount: entry.recordCount || 0,
+      settings: entry.settings ?? null,
     };
   } catch (error) {
     console.warn('Failed to load manifest from cache:', error);
@@ -80,12 +91,14 @@ function saveToCache(
   did: string,
   manifest: WispDirectory,
   recordCount: number = 0,
-  siteRkey?: string
+  siteRkey?: string,
+  settings: WispSiteSettings | null = null
 ): void {
   try {
     const entry = {
       data: manifest,
       recordCount,
+      settings,
       timestamp: Date.now(),
     };
     sessionStorage.setItem(getCacheKey(did, siteRkey), JSON.stringify(entry));
@@ -189,8 +202,8 @@ export function useManifestFetcher(
     // Try cache first
     const cached = loadFromCache(did, siteRkey || undefined);
     if (cached) {
-      const { manifest, recordCount } = cached;
-      setState({ data: manifest, loading: false, error: null, recordCount });
+      const { manifest, recordCount, settings } = cached;
+      setState({ data: manifest, loading: false, error: null, recordCount, settings });
       return;
     }
 
@@ -198,10 +211,14 @@ export function useManifestFetcher(
 
     try {
       let manifest: WispDirectory | null;
+      let settings: WispSiteSettings | null = null;
 
       if (siteRkey) {
-        // Fetch specific site
-        manifest = await withRetry(() => fetchWispSiteManifest(pdsUrl, did, siteRkey));
+        // Fetch specific site and its settings record
+        [manifest, settings] = await Promise.all([
+          withRetry(() => fetchWispSiteManifest(pdsUrl, did, siteRkey)),
+          withRetry(() => fetchWispSiteSettings(pdsUrl, did, siteRkey)),
+        ]);
       } else {
         // Fetch default (first) site
         manifest = await withRetry(() => fetchWispManifest(pdsUrl, did));
@@ -221,9 +238,9 @@ export function useManifestFetcher(
       const recordCount = files + directories;
 
       // Cache the manifest
-      saveToCache(did, manifest, recordCount, siteRkey || undefined);
+      saveToCache(did, manifest, recordCount, siteRkey || undefined, settings);
 
-      setState({ data: manifest, loading: false, error: null, recordCount });
+      setState({ data: manifest, loading: false, error: null, recordCount, settings });
     } catch (error) {
       let errorMessage = 'Failed to fetch manifest';
 
@@ -262,12 +279,13 @@ export function useSitesFetcher(pdsUrl: string | null, did: string | null): Site
     data: [],
     loading: false,
     error: null,
+    did: null,
   });
 
   useEffect(() => {
     const fetchSites = async () => {
       if (!pdsUrl || !did) {
-        setState({ data: [], loading: false, error: null });
+        setState({ data: [], loading: false, error: null, did: null });
         return;
       }
 
@@ -278,7 +296,7 @@ export function useSitesFetcher(pdsUrl: string | null, did: string | null): Site
           const entry = JSON.parse(cached);
           const now = Date.now();
           if (now - entry.timestamp <= CACHE_TTL) {
-            setState({ data: entry.data, loading: false, error: null });
+            setState({ data: entry.data, loading: false, error: null, did });
             return;
           }
         }
@@ -286,7 +304,7 @@ export function useSitesFetcher(pdsUrl: string | null, did: string | null): Site
         console.warn('Failed to load sites from cache:', error);
       }
 
-      setState({ data: [], loading: true, error: null });
+      setState({ data: [], loading: true, error: null, did: null });
 
       try {
         const sites = await withRetry(() => fetchWispSites(pdsUrl, did));
@@ -297,10 +315,10 @@ export function useSitesFetcher(pdsUrl: string | null, did: string | null): Site
           JSON.stringify({ data: sites, timestamp: Date.now() })
         );
 
-        setState({ data: sites, loading: false, error: null });
+        setState({ data: sites, loading: false, error: null, did });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to fetch sites';
-        setState({ data: [], loading: false, error: errorMessage });
+        setState({ data: [], loading: false, error: errorMessage, did });
       }
     };
 
@@ -312,11 +330,13 @@ export function useSitesFetcher(pdsUrl: string | null, did: string | null): Site
 
 /**
  * Hook that provides manual refresh capability
+ * With skipCache, the manifest is fetched from the PDS even if this session cached it.
  */
 export function useManifestFetcherManual(
   pdsUrl: string | null,
   did: string | null,
-  siteRkey?: string | null
+  siteRkey?: string | null,
+  skipCache = false
 ) {
   const [state, setState] = useState<ManifestFetcherState>({
     data: null,
@@ -332,10 +352,10 @@ export function useManifestFetcherManual(
     }
 
     // Try cache first
-    const cached = loadFromCache(did, siteRkey || undefined);
+    const cached = skipCache ? null : loadFromCache(did, siteRkey || undefined);
     if (cached) {
-      const { manifest, recordCount } = cached;
-      setState({ data: manifest, loading: false, error: null, recordCount });
+      const { manifest, recordCount, settings } = cached;
+      setState({ data: manifest, loading: false, error: null, recordCount, settings });
       return;
     }
 
@@ -343,9 +363,13 @@ export function useManifestFetcherManual(
 
     try {
       let manifest: WispDirectory | null;
+      let settings: WispSiteSettings | null = null;
 
       if (siteRkey) {
-        manifest = await withRetry(() => fetchWispSiteManifest(pdsUrl, did, siteRkey));
+        [manifest, settings] = await Promise.all([
+          withRetry(() => fetchWispSiteManifest(pdsUrl, did, siteRkey)),
+          withRetry(() => fetchWispSiteSettings(pdsUrl, did, siteRkey)),
+        ]);
       } else {
         manifest = await withRetry(() => fetchWispManifest(pdsUrl, did));
       }
@@ -364,9 +388,9 @@ export function useManifestFetcherManual(
       const recordCount = files + directories;
 
       // Cache the manifest
-      saveToCache(did, manifest, recordCount, siteRkey || undefined);
+      saveToCache(did, manifest, recordCount, siteRkey || undefined, settings);
 
-      setState({ data: manifest, loading: false, error: null, recordCount });
+      setState({ data: manifest, loading: false, error: null, recordCount, settings });
     } catch (error) {
       let errorMessage = 'Failed to fetch manifest';
 
@@ -387,7 +411,7 @@ export function useManifestFetcherManual(
 
       setState({ data: null, loading: false, error: errorMessage, recordCount: undefined });
     }
-  }, [pdsUrl, did, siteRkey]);
+  }, [pdsUrl, did, siteRkey, skipCache]);
 
   // Fetch on mount and when pdsUrl/did/siteRkey changes
   useEffect(() => {
@@ -0,0 +1,58 @@
+/**
+ * React hook for fetching the PLC audit log of a did:plc identity
+ */
+
+import { useState, useEffect } from 'react';
+import { fetchPlcAuditLog } from '../utils/atproto';
+import { buildPlcTimeline, type PlcTimelineEntry } from '../utils/plcAudit';
+import { withRetry } from '../utils/retry';
+
+export interface PlcAuditLogState {
+  data: PlcTimelineEntry[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Fetch and summarize the audit log for a did:plc (pass null to skip)
+ */
+export function usePlcAuditLog(did: string | null): PlcAuditLogState {
+  const [state, setState] = useState<PlcAuditLogState>({
+    data: [],
+    loading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!did || !did.startsWith('did:plc:')) {
+      setState({ data: [], loading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchLog = async () => {
+      setState({ data: [], loading: true, error: null });
+
+      try {
+        const entries = await withRetry(() => fetchPlcAuditLog(did));
+        if (!cancelled) {
+          setState({ data: buildPlcTimeline(entries), loading: false, error: null });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to fetch PLC audit log';
+          setState({ data: [], loading: false, error: errorMessage });
+        }
+      }
+    };
+
+    fetchLog();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [did]);
+
+  return state;
+}
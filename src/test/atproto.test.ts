@@ -0,0 +1,99 @@
+/**
+ * Tests for fetching wisp.place records from a PDS (src/utils/atproto.ts)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWispSiteManifest, fetchWispSiteSettings } from '../utils/atproto';
+
+const PDS = 'https://pds.test';
+const DID = 'did:plc:abc';
+
+function fileNode(cid: string) {
+  return {
+    type: 'file',
+    blob: { $type: 'blob', ref: { $link: cid }, mimeType: 'text/html', size: 10 },
+    base64: true,
+  };
+}
+
+function subfsNode(rkey: string) {
+  return { type: 'subfs', subject: `at://${DID}/place.wisp.subfs/${rkey}`, flat: false };
+}
+
+function xrpcError(status: number, error: string) {
+  return new Response(JSON.stringify({ error, message: error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Answer getRecord requests from a map of `collection/rkey` to record values
+ */
+function stubRecords(records: Record<string, unknown>) {
+  vi.stubGlobal('fetch', async (input: string) => {
+    const url = new URL(input);
+    const value = records[`${url.searchParams.get('collection')}/${url.searchParams.get('rkey')}`];
+    return value === undefined ? xrpcError(400, 'RecordNotFound') : new Response(JSON.stringify({ value }));
+  });
+}
+
+describe('fetchWispSiteManifest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads the rest of the site when a subfs record is missing', async () => {
+    stubRecords({
+      'place.wisp.fs/blog': {
+        $type: 'place.wisp.fs',
+        site: 'blog',
+        root: {
+          type: 'directory',
+          entries: [
+            { name: 'index.html', node: fileNode('bafkindex') },
+            { name: 'docs', node: subfsNode('docs') },
+            { name: 'gone', node: subfsNode('deleted') },
+          ],
+        },
+      },
+      'place.wisp.subfs/docs': {
+        $type: 'place.wisp.subfs',
+        root: { type: 'directory', entries: [{ name: 'intro.html', node: fileNode('bafkintro') }] },
+      },
+    });
+
+    const manifest = await fetchWispSiteManifest(PDS, DID, 'blog');
+
+    expect(Object.keys(manifest?.files ?? {})).toEqual(['index.html']);
+    expect(Object.keys(manifest?.dirs ?? {})).toEqual(['docs']);
+    expect(manifest?.dirs?.docs.files?.['intro.html'].cid).toBe('bafkintro');
+  });
+});
+
+describe('fetchWispSiteSettings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns null when the site has no settings record', async () => {
+    stubRecords({});
+    await expect(fetchWispSiteSettings(PDS, DID, 'blog')).resolves.toBeNull();
+
+    vi.stubGlobal('fetch', async () => new Response('Not Found', { status: 404 }));
+    await expect(fetchWispSiteSettings(PDS, DID, 'blog')).resolves.toBeNull();
+  });
+
+  it('parses the record', async () => {
+    stubRecords({ 'place.wisp.settings/blog': { $type: 'place.wisp.settings', cleanUrls: false } });
+    await expect(fetchWispSiteSettings(PDS, DID, 'blog')).resolves.toMatchObject({ cleanUrls: false });
+  });
+
+  it('surfaces other bad requests', async () => {
+    vi.stubGlobal('fetch', async () => xrpcError(400, 'InvalidRequest'));
+    await expect(fetchWispSiteSettings(PDS, DID, 'blog')).rejects.toThrow('InvalidRequest');
+
+    vi.stubGlobal('fetch', async () => new Response('<html>Bad Request</html>', { status: 400 }));
+    await expect(fetchWispSiteSettings(PDS, DID, 'blog')).rejects.toThrow("Failed to fetch settings for site 'blog'");
+  });
+});
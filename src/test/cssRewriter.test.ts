@@ -0,0 +1,62 @@
+/**
+ * Tests for the service worker's CSS rewriter (public/css-rewriter.js)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadPublicScript } from './loadPublicScript';
+
+interface WispCssRewriter {
+  rewriteCss: (css: string, rewriteUrl: (url: string) => string) => string;
+}
+
+const SITE_BASE = '/wisp/did:plc:test/site/';
+
+const { rewriteCss } = loadPublicScript<WispCssRewriter>('css-rewriter.js', 'WispCssRewriter');
+
+function rewrite(css: string): string {
+  return rewriteCss(css, (url) =>
+    url.startsWith('/') && !url.startsWith('//') ? SITE_BASE + url.slice(1) : url
+  );
+}
+
+describe('rewriteCss', () => {
+  it('rewrites unquoted and quoted url()', () => {
+    expect(rewrite('a{background:url(/a.png)} b{background:URL( "/b.png" )}')).toBe(
+      `a{background:url(${SITE_BASE}a.png)} b{background:URL( "${SITE_BASE}b.png" )}`
+    );
+  });
+
+  it('rewrites @import strings and urls', () => {
+    expect(rewrite(`@import "/base.css";\n@import url('/theme.css') screen;`)).toBe(
+      `@import "${SITE_BASE}base.css";\n@import url('${SITE_BASE}theme.css') screen;`
+    );
+  });
+
+  it('rewrites @font-face sources but not format() strings', () => {
+    const css = `@font-face{src:url(/f.woff2) format("woff2"),url("/f.woff") format('woff')}`;
+    expect(rewrite(css)).toBe(
+      `@font-face{src:url(${SITE_BASE}f.woff2) format("woff2"),url("${SITE_BASE}f.woff") format('woff')}`
+    );
+  });
+
+  it('rewrites image-set() strings and urls', () => {
+    const css = `a{background-image:image-set("/a.png" 1x, url(/a@2x.png) 2x);` +
+      `b:-webkit-image-set('/b.png' 1x)}`;
+    expect(rewrite(css)).toBe(
+      `a{background-image:image-set("${SITE_BASE}a.png" 1x, url(${SITE_BASE}a@2x.png) 2x);` +
+        `b:-webkit-image-set('${SITE_BASE}b.png' 1x)}`
+    );
+  });
+
+  it('leaves other strings, comments and non-root URLs alone', () => {
+    const css = `/* url(/commented.png) */ a::before{content:"/not-a-url"} ` +
+      `b{background:url(rel.png), url(//cdn.example/x.png), url(data:image/png;base64,AA)}`;
+    expect(rewrite(css)).toBe(css);
+  });
+
+  it('does not treat strings after an @import statement as imports', () => {
+    expect(rewrite(`@import "/a.css"; a{content:"/b"}`)).toBe(
+      `@import "${SITE_BASE}a.css"; a{content:"/b"}`
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for did:web parsing and resolution (src/utils/didWeb.ts)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseDidWeb, resolveDidWeb } from '../utils/didWeb';
+import { ResolutionError } from '../types/atproto';
+
+function parseErrorCode(did: string): string | undefined {
+  try {
+    parseDidWeb(did);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ResolutionError);
+    return (error as ResolutionError).code;
+  }
+  throw new Error(`Parsed: ${did}`);
+}
+
+describe('parseDidWeb', () => {
+  it('builds the well-known document URL for a bare host', () => {
+    expect(parseDidWeb('did:web:example.com')).toEqual({
+      did: 'did:web:example.com',
+      host: 'example.com',
+      port: undefined,
+      path: [],
+      documentUrl: 'https://example.com/.well-known/did.json',
+    });
+  });
+
+  it('reads a percent-encoded port', () => {
+    const parsed = parseDidWeb('did:web:example.com%3A8443');
+    expect(parsed.port).toBe(8443);
+    expect(parsed.documentUrl).toBe('https://example.com:8443/.well-known/did.json');
+  });
+
+  it('turns path segments into a did.json path', () => {
+    const parsed = parseDidWeb('did:web:example.com:user:alice%20b');
+    expect(parsed.path).toEqual(['user', 'alice b']);
+    expect(parsed.documentUrl).toBe('https://example.com/user/alice%20b/did.json');
+  });
+
+  it('uses http for local hosts only', () => {
+    expect(parseDidWeb('did:web:localhost%3A3000').documentUrl).toBe(
+      'http://localhost:3000/.well-known/did.json'
+    );
+    expect(parseDidWeb('did:web:pds.localhost').documentUrl).toBe(
+      'http://pds.localhost/.well-known/did.json'
+    );
+    expect(parseDidWeb('did:web:%5B%3A%3A1%5D%3A2583').documentUrl).toBe(
+      'http://[::1]:2583/.well-known/did.json'
+    );
+    expect(parseDidWeb('did:web:Example.COM').documentUrl).toBe(
+      'https://example.com/.well-known/did.json'
+    );
+  });
+
+  it('rejects other methods and empty identifiers', () => {
+    expect(parseErrorCode('did:plc:abc')).toBe('did-web-method');
+    expect(parseErrorCode('did:web:')).toBe('did-web-empty');
+  });
+
+  it('rejects invalid hosts and ports', () => {
+    expect(parseErrorCode('did:web:exa_mple.com')).toBe('did-web-host');
+    expect(parseErrorCode('did:web:.example.com')).toBe('did-web-host');
+    expect(parseErrorCode('did:web:example..com')).toBe('did-web-host');
+    expect(parseErrorCode('did:web:example.com%2Fpath')).toBe('did-web-host');
+    expect(parseErrorCode('did:web:example.com%3A0')).toBe('did-web-port');
+    expect(parseErrorCode('did:web:example.com%3A70000')).toBe('did-web-port');
+  });
+
+  it('rejects bad encodings and path segments', () => {
+    expect(parseErrorCode('did:web:example.com%E0%A4')).toBe('did-web-encoding');
+    expect(parseErrorCode('did:web:example.com::alice')).toBe('did-web-path');
+    expect(parseErrorCode('did:web:example.com:..')).toBe('did-web-path');
+    expect(parseErrorCode('did:web:example.com:a%2Fb')).toBe('did-web-path');
+  });
+});
+
+describe('resolveDidWeb', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches and checks the document', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(JSON.stringify({ id: 'did:web:example.com' }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(resolveDidWeb('did:web:example.com')).resolves.toEqual({
+      id: 'did:web:example.com',
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/.well-known/did.json');
+  });
+
+  it('rejects a document for another DID', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({ id: 'did:web:other.com' })));
+    await expect(resolveDidWeb('did:web:example.com')).rejects.toMatchObject({
+      code: 'did-web-id-mismatch',
+    });
+  });
+
+  it('leaves network errors as they are, so they can be retried', async () => {
+    const networkError = new TypeError('Failed to fetch');
+    vi.stubGlobal('fetch', async () => {
+      throw networkError;
+    });
+    await expect(resolveDidWeb('did:web:example.com')).rejects.toBe(networkError);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for the directory listing page (public/directory-listing.js)
+ *
+ * Listings are parsed with DOMParser to check what a browser would see. The
+ * sorting and filtering script is re-created from its source and run against
+ * a listing copied into jsdom's document, as the service worker inlines it.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadPublicScript } from './loadPublicScript';
+
+interface ListingFile {
+  blob: unknown;
+  size?: number;
+  mimeType?: string;
+  cid?: string;
+}
+
+interface ListingDirectory {
+  files?: Record<string, ListingFile>;
+  dirs?: Record<string, ListingDirectory>;
+}
+
+interface WispDirectoryListing {
+  escapeHtml: (value: unknown) => string;
+  formatSize: (bytes: unknown) => string;
+  enhanceListing: () => void;
+  renderDirectoryListing: (options: {
+    siteName: string;
+    segments: string[];
+    directory: ListingDirectory;
+    nonce?: string | null;
+  }) => string;
+}
+
+const { formatSize, enhanceListing, renderDirectoryListing } = loadPublicScript<WispDirectoryListing>(
+  'directory-listing.js',
+  'WispDirectoryListing'
+);
+const runEnhanceListing = new Function(`(${enhanceListing.toString()})();`) as () => void;
+
+const directory: ListingDirectory = {
+  dirs: { 'img 2': {}, css: {} },
+  files: {
+    'b.txt': { blob: null, size: 2048, mimeType: 'text/plain', cid: 'bafkreiabcdefghijklmnopqrstuvwxyz' },
+    'a10.html': { blob: null, size: 10, mimeType: 'text/html', cid: 'bafkshort' },
+    'a9.html': { blob: null, size: 500, mimeType: 'text/html' },
+  },
+};
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function rowNames(): string[] {
+  return [...document.querySelectorAll<HTMLTableRowElement>('#wisp-listing tbody tr')]
+    .filter((row) => !row.hidden)
+    .map((row) => row.dataset.name ?? '..');
+}
+
+describe('renderDirectoryListing', () => {
+  it('escapes hostile names instead of rendering them', () => {
+    const hostile = '<img src=x onerror=alert(1)>"\'.html';
+    const doc = parse(
+      renderDirectoryListing({
+        siteName: '<b>site</b>',
+        segments: ['<script>'],
+        directory: { files: { [hostile]: { blob: null, size: 1, mimeType: 'text/"html' } } },
+      })
+    );
+
+    expect(doc.querySelector('img')).toBeNull();
+    expect(doc.querySelector('b')).toBeNull();
+    expect(doc.querySelectorAll('script')).toHaveLength(1);
+
+    const row = doc.querySelector<HTMLTableRowElement>('tr[data-kind="file"]');
+    expect(row?.dataset.name).toBe(hostile);
+    expect(row?.dataset.type).toBe('text/"html');
+    expect(row?.querySelector('a')?.textContent).toBe(hostile);
+    expect(row?.querySelector('a')?.getAttribute('href')).toBe(
+      `%3Cscript%3E/${encodeURIComponent(hostile)}`
+    );
+  });
+
+  it('links relative to the site base, with breadcrumbs for each parent', () => {
+    const doc = parse(renderDirectoryListing({ siteName: 'site', segments: ['docs', 'my dir'], directory }));
+
+    const crumbs = [...doc.querySelectorAll('nav[aria-label="Breadcrumb"] li')];
+    expect(crumbs.map((crumb) => crumb.textContent)).toEqual(['site', 'docs', 'my dir']);
+    expect(crumbs.map((crumb) => crumb.querySelector('a')?.getAttribute('href') ?? null)).toEqual([
+      './',
+      'docs/',
+      null,
+    ]);
+    expect(crumbs[2].getAttribute('aria-current')).toBe('page');
+
+    const hrefs = [...doc.querySelectorAll('tbody a')].map((a) => a.getAttribute('href'));
+    expect(hrefs[0]).toBe('docs/');
+    expect(hrefs).toContain('docs/my%20dir/img%202/');
+    expect(hrefs).toContain('docs/my%20dir/b.txt');
+    expect(hrefs.every((href) => !href?.startsWith('/'))).toBe(true);
+  });
+
+  it('shows size, MIME type and CID for files', () => {
+    const doc = parse(renderDirectoryListing({ siteName: 'site', segments: [], directory }));
+    const row = doc.querySelector<HTMLTableRowElement>('tr[data-name="b.txt"]');
+
+    expect(row?.querySelector('.size')?.textContent).toBe('2.0 KB');
+    expect(row?.querySelector('.size')?.getAttribute('title')).toBe('2048 bytes');
+    expect(row?.querySelector('.type')?.textContent).toBe('text/plain');
+    expect(row?.querySelector('.cid code')?.getAttribute('title')).toBe('bafkreiabcdefghijklmnopqrstuvwxyz');
+    expect(doc.querySelector('tr[data-kind="parent"]')).toBeNull();
+    expect(doc.getElementById('wisp-listing-count')?.textContent).toBe('5 entries');
+  });
+
+  it('puts the nonce on its script', () => {
+    const doc = parse(renderDirectoryListing({ siteName: 'site', segments: [], directory, nonce: 'abc123' }));
+    expect(doc.querySelector('script')?.getAttribute('nonce')).toBe('abc123');
+  });
+});
+
+describe('formatSize', () => {
+  it('formats bytes and larger units', () => {
+    expect(formatSize(0)).toBe('0 B');
+    expect(formatSize(1536)).toBe('1.5 KB');
+    expect(formatSize(50 * 1024 * 1024)).toBe('50 MB');
+    expect(formatSize(undefined)).toBe('');
+  });
+});
+
+describe('enhanceListing', () => {
+  beforeEach(() => {
+    const doc = parse(renderDirectoryListing({ siteName: 'site', segments: ['docs'], directory }));
+    document.body.innerHTML = doc.body.innerHTML;
+    runEnhanceListing();
+  });
+
+  it('sorts by name with directories first and numbers in order', () => {
+    expect(rowNames()).toEqual(['..', 'css', 'img 2', 'a9.html', 'a10.html', 'b.txt']);
+  });
+
+  it('sorts by a column and reverses on a second click', () => {
+    const sizeHeader = document.querySelector<HTMLElement>('th[data-sort="size"]');
+    sizeHeader?.querySelector('button')?.click();
+    expect(rowNames()).toEqual(['..', 'css', 'img 2', 'a10.html', 'a9.html', 'b.txt']);
+    expect(sizeHeader?.getAttribute('aria-sort')).toBe('ascending');
+    expect(document.querySelector('th[data-sort="name"]')?.getAttribute('aria-sort')).toBe('none');
+
+    sizeHeader?.querySelector('button')?.click();
+    expect(rowNames()).toEqual(['..', 'css', 'img 2', 'b.txt', 'a9.html', 'a10.html']);
+    expect(sizeHeader?.getAttribute('aria-sort')).toBe('descending');
+  });
+
+  it('filters rows by name and reports how many match', () => {
+    const filter = document.getElementById('wisp-listing-filter') as HTMLInputElement;
+    filter.value = 'A1';
+    filter.dispatchEvent(new Event('input'));
+
+    expect(rowNames()).toEqual(['..', 'a10.html']);
+    expect(document.getElementById('wisp-listing-count')?.textContent).toBe('1 of 5 entries match');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Fixture tests for the service worker's HTML rewriter (public/html-rewriter.js)
+ *
+ * Each fixture is a pair of files in fixtures/html-rewriter: <name>.input.html
+ * is rewritten for a site at /wisp/did:plc:test/site/ and compared with
+ * <name>.expected.html.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { loadPublicScript } from './loadPublicScript';
+
+interface RewriteOptions {
+  rewriteUrl?: (url: string) => string;
+  rewriteCss?: (css: string) => string;
+  headHtml?: string;
+  bodyEndHtml?: string;
+}
+
+interface HtmlToken {
+  type: 'text' | 'comment' | 'doctype' | 'startTag' | 'endTag' | 'rawText';
+  name?: string;
+  start: number;
+  end: number;
+}
+
+interface WispHtmlRewriter {
+  tokenizeHtml: (html: string) => Iterable<HtmlToken>;
+  rewriteHtml: (html: string, options?: RewriteOptions) => string;
+  rewriteSrcset: (value: string, rewriteUrl: (url: string) => string) => string;
+  rewriteMetaRefresh: (content: string, rewriteUrl: (url: string) => string) => string;
+}
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/html-rewriter');
+const SITE_BASE = '/wisp/did:plc:test/site/';
+
+const rewriter = loadPublicScript<WispHtmlRewriter>('html-rewriter.js', 'WispHtmlRewriter');
+
+function rewriteUrl(url: string): string {
+  return url.startsWith('/') && !url.startsWith('//') && !url.startsWith('/wisp/')
+    ? SITE_BASE + url.slice(1)
+    : url;
+}
+
+function rewriteCss(css: string): string {
+  return css.replace(/url\((\s*['"]?)\/(?!\/)/g, `url($1${SITE_BASE}`);
+}
+
+function readFixture(name: string): string {
+  // Fixture files end with a newline that isn't part of the document
+  return readFileSync(resolve(FIXTURES_DIR, name), 'utf8').replace(/\n$/, '');
+}
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith('.input.html'))
+  .map((file) => file.replace(/\.input\.html$/, ''));
+
+describe('rewriteHtml fixtures', () => {
+  it.each(fixtures)('%s', (name) => {
+    const output = rewriter.rewriteHtml(readFixture(`${name}.input.html`), {
+      rewriteUrl,
+      rewriteCss,
+      headHtml: `<base href="${SITE_BASE}">`,
+      bodyEndHtml: '<script>overlay()</script>',
+    });
+
+    expect(output).toBe(readFixture(`${name}.expected.html`));
+  });
+});
+
+describe('rewriteHtml', () => {
+  it('copies documents through unchanged without options', () => {
+    const html = '<!doctype html><p class=a title="x > y">Hi <b>there</b> < 3</p>';
+    expect(rewriter.rewriteHtml(html)).toBe(html);
+  });
+
+  it('quotes unquoted values that need it after rewriting', () => {
+    const output = rewriter.rewriteHtml('<a href=/x>x</a>', { rewriteUrl: () => '/a b' });
+    expect(output).toBe('<a href="/a b">x</a>');
+  });
+});
+
+describe('rewriteSrcset', () => {
+  it('rewrites every candidate and keeps descriptors', () => {
+    expect(rewriter.rewriteSrcset(' /a.png 1x ,/b.png 2x', rewriteUrl)).toBe(
+      ` ${SITE_BASE}a.png 1x ,${SITE_BASE}b.png 2x`
+    );
+  });
+
+  it('handles candidates without descriptors', () => {
+    expect(rewriter.rewriteSrcset('/a.png, /b.png', rewriteUrl)).toBe(
+      `${SITE_BASE}a.png, ${SITE_BASE}b.png`
+    );
+  });
+});
+
+describe('rewriteMetaRefresh', () => {
+  it('rewrites the URL and keeps the delay', () => {
+    expect(rewriter.rewriteMetaRefresh('10;url=/next', rewriteUrl)).toBe(`10;url=${SITE_BASE}next`);
+  });
+
+  it('leaves a plain reload alone', () => {
+    expect(rewriter.rewriteMetaRefresh('30', rewriteUrl)).toBe('30');
+  });
+});
+
+describe('tokenizeHtml', () => {
+  it('treats script contents as raw text', () => {
+    const html = '<script>if (a<b) x("</p>")</script><p>';
+    const tokens = [...rewriter.tokenizeHtml(html)];
+    expect(tokens.map((token) => token.type)).toEqual(['startTag', 'rawText', 'endTag', 'startTag']);
+  });
+
+  it('ends raw text at a case-insensitive end tag', () => {
+    // İ lowercases to two characters, which would shift offsets into a lowercased copy
+    const html = 'İ<SCRIPT>x</scriptx></ScRiPt ><p>';
+    const tokens = [...rewriter.tokenizeHtml(html)];
+    const rawText = tokens.find((token) => token.type === 'rawText');
+    expect(rawText && html.slice(rawText.start, rawText.end)).toBe('x</scriptx>');
+    expect(tokens[tokens.length - 1]).toMatchObject({ type: 'startTag', name: 'p' });
+  });
+
+  it('keeps quoted > inside the tag', () => {
+    const tokens = [...rewriter.tokenizeHtml('<a title="1 > 0">x</a>')];
+    expect(tokens[0]).toMatchObject({ type: 'startTag', name: 'a', start: 0, end: 17 });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the service worker's JS and import map rewriter (public/js-rewriter.js)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadPublicScript } from './loadPublicScript';
+
+interface WispJsRewriter {
+  rewriteModuleSpecifiers: (js: string, rewriteUrl: (url: string) => string) => string;
+  rewriteImportMap: (json: string, rewriteUrl: (url: string) => string) => string;
+}
+
+const SITE_BASE = '/wisp/did:plc:test/site/';
+
+const { rewriteModuleSpecifiers, rewriteImportMap } = loadPublicScript<WispJsRewriter>(
+  'js-rewriter.js',
+  'WispJsRewriter'
+);
+
+function rewriteUrl(url: string): string {
+  return url.startsWith('/') && !url.startsWith('//') ? SITE_BASE + url.slice(1) : url;
+}
+
+describe('rewriteModuleSpecifiers', () => {
+  it('rewrites static imports', () => {
+    const js = [
+      `import '/side-effect.js';`,
+      `import app from "/js/app.js";`,
+      `import def, { a, b as c } from '/js/lib.js'`,
+      `import * as ns from '/js/ns.js';`,
+    ].join('\n');
+
+    expect(rewriteModuleSpecifiers(js, rewriteUrl)).toBe(
+      [
+        `import '${SITE_BASE}side-effect.js';`,
+        `import app from "${SITE_BASE}js/app.js";`,
+        `import def, { a, b as c } from '${SITE_BASE}js/lib.js'`,
+        `import * as ns from '${SITE_BASE}js/ns.js';`,
+      ].join('\n')
+    );
+  });
+
+  it('rewrites re-exports and literal dynamic imports', () => {
+    const js = `export * from '/a.js';\nexport { x as y } from "/b.js";\nconst m = await import('/c.js');`;
+    expect(rewriteModuleSpecifiers(js, rewriteUrl)).toBe(
+      `export * from '${SITE_BASE}a.js';\nexport { x as y } from "${SITE_BASE}b.js";\n` +
+        `const m = await import('${SITE_BASE}c.js');`
+    );
+  });
+
+  it('leaves relative and bare specifiers alone', () => {
+    const js = `import a from './a.js';\nimport b from 'lodash';\nimport c from 'https://esm.sh/c';`;
+    expect(rewriteModuleSpecifiers(js, rewriteUrl)).toBe(js);
+  });
+
+  it('ignores look-alikes in strings, comments, templates and regexes', () => {
+    const js = [
+      `const s = "import x from '/nope.js'";`,
+      `// import y from '/nope.js'`,
+      `/* export * from '/nope.js' */`,
+      'const t = `import z from "/nope.js" ${1 + 1}`;',
+      `const r = /import a from '\\/nope'/;`,
+      `obj.import('/nope.js');`,
+      `export const from = '/nope.js';`,
+      `export { a };`,
+      `const q = '/nope.js';`,
+    ].join('\n');
+    expect(rewriteModuleSpecifiers(js, rewriteUrl)).toBe(js);
+  });
+});
+
+describe('rewriteImportMap', () => {
+  it('rewrites imports, scopes and integrity URLs', () => {
+    const json = JSON.stringify({
+      imports: { lodash: '/vendor/lodash.js', '/js/': '/js/v2/', react: 'https://esm.sh/react' },
+      scopes: { '/legacy/': { lodash: '/vendor/lodash-3.js' } },
+      integrity: { '/vendor/lodash.js': 'sha384-abc' },
+    });
+
+    expect(JSON.parse(rewriteImportMap(json, rewriteUrl))).toEqual({
+      imports: {
+        lodash: `${SITE_BASE}vendor/lodash.js`,
+        [`${SITE_BASE}js/`]: `${SITE_BASE}js/v2/`,
+        react: 'https://esm.sh/react',
+      },
+      scopes: { [`${SITE_BASE}legacy/`]: { lodash: `${SITE_BASE}vendor/lodash-3.js` } },
+      integrity: { [`${SITE_BASE}vendor/lodash.js`]: 'sha384-abc' },
+    });
+  });
+
+  it('leaves invalid JSON alone', () => {
+    expect(rewriteImportMap('{ not json', rewriteUrl)).toBe('{ not json');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for parsing place.wisp.settings records (src/types/lexicon.ts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePlaceWispSettings } from '../types/lexicon';
+
+function parseHeaders(headers: unknown[]) {
+  return parsePlaceWispSettings({ $type: 'place.wisp.settings', headers }).headers;
+}
+
+describe('parsePlaceWispSettings', () => {
+  it('keeps valid custom headers', () => {
+    expect(
+      parseHeaders([
+        { name: 'Cache-Control', value: 'max-age=60' },
+        { name: 'X-Frame-Options', value: 'DENY', path: '/admin/*' },
+      ])
+    ).toEqual([
+      { name: 'Cache-Control', value: 'max-age=60' },
+      { name: 'X-Frame-Options', value: 'DENY', path: '/admin/*' },
+    ]);
+  });
+
+  it('drops malformed headers', () => {
+    expect(
+      parseHeaders([null, { name: 'Bad Name', value: 'x' }, { name: 'X-Ok', value: 1 }, { name: 'X-Ok', value: 'x', path: 2 }])
+    ).toEqual([]);
+  });
+
+  it("drops the explorer's own headers", () => {
+    expect(
+      parseHeaders([
+        { name: 'X-Wisp-Overlay', value: 'none' },
+        { name: 'x-wisp-cache', value: 'HIT' },
+        { name: 'Referrer-Policy', value: 'no-referrer' },
+      ])
+    ).toEqual([{ name: 'Referrer-Policy', value: 'no-referrer' }]);
+  });
+
+  it("keeps the site's own Content-Security-Policy", () => {
+    const headers = [
+      { name: 'Content-Security-Policy', value: "default-src 'self'" },
+      { name: 'Content-Security-Policy-Report-Only', value: "img-src 'self'" },
+    ];
+    expect(parseHeaders(headers)).toEqual(headers);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Load the service worker's classic scripts from public/ for testing
+ *
+ * These scripts are written for importScripts() and attach their API to
+ * `self`, so they are run in a sandbox and the API is read back from it.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { createContext, runInContext, runInNewContext } from 'node:vm';
+
+export function loadPublicScript<T>(filename: string, globalName: string): T {
+  const source = readFileSync(resolve(__dirname, '../../public', filename), 'utf8');
+  const sandbox: { self: Record<string, unknown> } = { self: {} };
+  runInNewContext(source, sandbox);
+  return sandbox.self[globalName] as T;
+}
+
+/**
+ * Load public/sw.js itself, with the scripts it imports
+ * Its top-level functions are read back from the sandbox; event listeners are
+ * registered nowhere, and pako (fetched from a CDN) is left out. Pass globals
+ * such as fetch or setTimeout for the code under test that needs them.
+ */
+export function loadServiceWorker<T>(globals: Record<string, unknown> = {}): T {
+  const sandbox: Record<string, unknown> = {
+    ...globals,
+    console: { log() {}, warn() {}, error() {}, debug() {} },
+    addEventListener() {},
+    importScripts(...filenames: string[]) {
+      for (const filename of filenames) {
+        if (filename.startsWith('http')) continue;
+        runInContext(readFileSync(resolve(__dirname, '../../public', filename), 'utf8'), sandbox);
+      }
+    },
+  };
+  sandbox.self = sandbox;
+  createContext(sandbox);
+  runInContext(readFileSync(resolve(__dirname, '../../public/sw.js'), 'utf8'), sandbox);
+  return sandbox as T;
+}
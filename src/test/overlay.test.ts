@@ -0,0 +1,143 @@
+/**
+ * Tests for the page overlay (public/overlay.js)
+ *
+ * The service worker inlines mountOverlay's source into pages, so the tests
+ * do the same: the function is re-created from its source and run against
+ * jsdom's document, with a fake service worker answering its messages.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadPublicScript } from './loadPublicScript';
+
+interface OverlayConfig {
+  did: string;
+  siteName: string;
+  handle: string | null;
+  base: string;
+  safeMode: boolean;
+  privacyMode: 'off' | 'log' | 'block';
+}
+
+interface WispOverlay {
+  mountOverlay: (config: OverlayConfig) => void;
+}
+
+const SITE_BASE = '/wisp/did:plc:test/site/';
+
+const { mountOverlay } = loadPublicScript<WispOverlay>('overlay.js', 'WispOverlay');
+const runOverlay = new Function('config', `(${mountOverlay.toString()})(config);`) as WispOverlay['mountOverlay'];
+
+const config: OverlayConfig = {
+  did: 'did:plc:test',
+  siteName: 'site',
+  handle: 'alice.test',
+  base: SITE_BASE,
+  safeMode: false,
+  privacyMode: 'off',
+};
+
+const replies: Record<string, unknown> = {
+  GET_SITE_FILES: {
+    success: true,
+    files: [
+      { path: 'index.html', size: 10, mimeType: 'text/html' },
+      { path: 'docs/page.html', size: 20, mimeType: 'text/html' },
+      { path: 'docs/img/a.png', size: 30, mimeType: 'image/png' },
+    ],
+  },
+};
+
+function getShadow(): ShadowRoot {
+  const host = document.getElementById('wisp-overlay-host');
+  if (!host?.shadowRoot) throw new Error('Overlay is not mounted');
+  return host.shadowRoot;
+}
+
+function getButton(label: string): HTMLButtonElement {
+  const button = [...getShadow().querySelectorAll('button')].find((b) => b.textContent === label);
+  if (!button) throw new Error(`No ${label} button`);
+  return button;
+}
+
+async function flush() {
+  for (let i = 0; i < 5; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+beforeEach(() => {
+  window.history.pushState({}, '', `${SITE_BASE}docs/page.html?q=1`);
+  localStorage.clear();
+  Object.defineProperty(navigator, 'serviceWorker', {
+    configurable: true,
+    value: {
+      controller: {
+        postMessage: (message: { type: string }, [port]: MessagePort[]) => {
+          port.postMessage(replies[message.type] ?? {});
+        },
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  document.getElementById('wisp-overlay-host')?.remove();
+});
+
+describe('mountOverlay', () => {
+  it('shows the site name, handle and current path', () => {
+    runOverlay(config);
+    const text = getShadow().querySelector('[role="toolbar"]')?.textContent;
+    expect(text).toContain('site');
+    expect(text).toContain('@alice.test');
+    expect(text).toContain('/docs/page.html?q=1');
+  });
+
+  it('only mounts on /wisp/ pages', () => {
+    window.history.pushState({}, '', '/');
+    runOverlay(config);
+    expect(document.getElementById('wisp-overlay-host')).toBeNull();
+  });
+
+  it('remembers that it was collapsed', () => {
+    runOverlay(config);
+    getShadow().querySelector<HTMLButtonElement>('[aria-label="Collapse toolbar"]')?.click();
+    expect(localStorage.getItem('wisp_overlay_collapsed')).toBe('1');
+
+    document.getElementById('wisp-overlay-host')?.remove();
+    runOverlay(config);
+    expect(getShadow().querySelector<HTMLElement>('[role="toolbar"]')?.hidden).toBe(true);
+    expect(getButton('wisp').hidden).toBe(false);
+  });
+
+  it('lists the site files as a tree with the current page marked', async () => {
+    runOverlay(config);
+    getButton('Files').click();
+    await flush();
+
+    const panel = getShadow().querySelector('[role="dialog"]');
+    const current = panel?.querySelector('a[aria-current="page"]');
+    expect(current?.getAttribute('href')).toBe(`${SITE_BASE}docs/page.html`);
+    expect(panel?.querySelector('details[open] summary')?.textContent).toBe('docs/');
+    expect(getButton('Files').getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('closes the open panel with Escape and returns focus to its button', async () => {
+    runOverlay(config);
+    const files = getButton('Files');
+    files.click();
+    await flush();
+
+    getShadow()
+      .querySelector('[role="dialog"]')
+      ?.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+    expect(getShadow().querySelector('[role="dialog"]')).toBeNull();
+    expect(files.getAttribute('aria-expanded')).toBe('false');
+    expect(getShadow().activeElement).toBe(files);
+  });
+
+  it('shows safe mode and the privacy report button when they are on', () => {
+    runOverlay({ ...config, safeMode: true, privacyMode: 'block' });
+    expect(getShadow().querySelector('.badge')?.textContent).toBe('Safe mode');
+    expect(getButton('Privacy')).toBeTruthy();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for turning a PLC audit log into a timeline (src/utils/plcAudit.ts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPlcTimeline } from '../utils/plcAudit';
+import type { PlcAuditEntry, PlcOperation } from '../types/atproto';
+
+const DID = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const ROTATION_KEY = 'did:key:zQ3shhCGUqDKjStzuDxPkTxN6ujddP4RkEKJJouJGRRkaLGbg';
+const BACKUP_KEY = 'did:key:zQ3shpKnbdPx3g3CmPf5cRVTPe1HtSwVn5ish3wSnDPQCbLJK';
+const SIGNING_KEY = 'did:key:zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCyW92sRJ9pribSF';
+const NEW_SIGNING_KEY = 'did:key:zQ3shY4H5n7VQ2pK3w9HkUw1bZ8b6X5nP3WQ5tXqT9c7RkD2M';
+
+function operation(overrides: Partial<PlcOperation> = {}): PlcOperation {
+  return {
+    type: 'plc_operation',
+    rotationKeys: [ROTATION_KEY],
+    verificationMethods: { atproto: SIGNING_KEY },
+    alsoKnownAs: ['at://alice.bsky.social'],
+    services: {
+      atproto_pds: {
+        type: 'AtprotoPersonalDataServer',
+        endpoint: 'https://morel.us-east.host.bsky.network',
+      },
+    },
+    prev: null,
+    sig: 'sig',
+    ...overrides,
+  };
+}
+
+function entry(
+  cid: string,
+  createdAt: string,
+  op: PlcAuditEntry['operation'],
+  nullified = false
+): PlcAuditEntry {
+  return { did: DID, operation: op, cid, nullified, createdAt };
+}
+
+const genesis = entry('bafyreigenesis', '2023-04-12T04:53:57.057Z', operation());
+const handleChange = entry(
+  'bafyreihandle',
+  '2023-06-01T10:00:00.000Z',
+  operation({ alsoKnownAs: ['at://alice.example.com'], prev: 'bafyreigenesis' })
+);
+const nullifiedMove = entry(
+  'bafyreinullified',
+  '2023-07-01T10:00:00.000Z',
+  operation({
+    alsoKnownAs: ['at://alice.example.com'],
+    services: {
+      atproto_pds: { type: 'AtprotoPersonalDataServer', endpoint: 'https://evil.example' },
+    },
+    prev: 'bafyreihandle',
+  }),
+  true
+);
+const pdsAndKeys = entry(
+  'bafyreimove',
+  '2023-07-02T10:00:00.000Z',
+  operation({
+    alsoKnownAs: ['at://alice.example.com'],
+    services: {
+      atproto_pds: { type: 'AtprotoPersonalDataServer', endpoint: 'https://pds.example.com' },
+    },
+    rotationKeys: [ROTATION_KEY, BACKUP_KEY],
+    verificationMethods: { atproto: NEW_SIGNING_KEY },
+    prev: 'bafyreihandle',
+  })
+);
+const tombstone = entry('bafyreitombstone', '2024-01-01T00:00:00.000Z', {
+  type: 'plc_tombstone',
+  prev: 'bafyreimove',
+  sig: 'sig',
+});
+
+describe('buildPlcTimeline', () => {
+  it('describes each operation against the one before it', () => {
+    const timeline = buildPlcTimeline([genesis, handleChange, pdsAndKeys, tombstone]);
+
+    expect(timeline.map((item) => item.cid)).toEqual([
+      'bafyreigenesis',
+      'bafyreihandle',
+      'bafyreimove',
+      'bafyreitombstone',
+    ]);
+    expect(timeline[0].changes).toEqual([
+      { kind: 'created', to: 'alice.bsky.social' },
+      { kind: 'pds', to: 'https://morel.us-east.host.bsky.network' },
+    ]);
+    expect(timeline[1].changes).toEqual([
+      { kind: 'handle', from: 'alice.bsky.social', to: 'alice.example.com' },
+    ]);
+    expect(timeline[2].changes).toEqual([
+      {
+        kind: 'pds',
+        from: 'https://morel.us-east.host.bsky.network',
+        to: 'https://pds.example.com',
+      },
+      { kind: 'rotation-keys', from: ROTATION_KEY, to: `${ROTATION_KEY}, ${BACKUP_KEY}` },
+      { kind: 'signing-key', from: SIGNING_KEY, to: NEW_SIGNING_KEY },
+    ]);
+    expect(timeline[3].changes).toEqual([{ kind: 'tombstone' }]);
+  });
+
+  it('shows nullified operations without making them the baseline', () => {
+    const timeline = buildPlcTimeline([genesis, handleChange, nullifiedMove, pdsAndKeys]);
+
+    expect(timeline[2]).toMatchObject({
+      cid: 'bafyreinullified',
+      nullified: true,
+      changes: [
+        {
+          kind: 'pds',
+          from: 'https://morel.us-east.host.bsky.network',
+          to: 'https://evil.example',
+        },
+      ],
+    });
+    // Diffed against the operation before the nullified one
+    expect(timeline[3].changes[0]).toEqual({
+      kind: 'pds',
+      from: 'https://morel.us-east.host.bsky.network',
+      to: 'https://pds.example.com',
+    });
+  });
+
+  it('orders operations oldest first', () => {
+    const timeline = buildPlcTimeline([pdsAndKeys, genesis, handleChange]);
+    expect(timeline.map((item) => item.cid)).toEqual([
+      'bafyreigenesis',
+      'bafyreihandle',
+      'bafyreimove',
+    ]);
+  });
+
+  it('reads legacy create operations', () => {
+    const timeline = buildPlcTimeline([
+      entry('bafyreilegacy', '2022-11-17T00:00:00.000Z', {
+        type: 'create',
+        signingKey: SIGNING_KEY,
+        recoveryKey: ROTATION_KEY,
+        handle: 'alice.bsky.social',
+        service: 'https://bsky.social',
+        prev: null,
+        sig: 'sig',
+      }),
+      entry(
+        'bafyreiupgrade',
+        '2023-03-01T00:00:00.000Z',
+        operation({ rotationKeys: [ROTATION_KEY, SIGNING_KEY], prev: 'bafyreilegacy' })
+      ),
+    ]);
+
+    expect(timeline[0].changes).toEqual([
+      { kind: 'created', to: 'alice.bsky.social' },
+      { kind: 'pds', to: 'https://bsky.social' },
+    ]);
+    // Legacy rotation keys are the recovery key then the signing key
+    expect(timeline[1].changes).toEqual([
+      { kind: 'pds', from: 'https://bsky.social', to: 'https://morel.us-east.host.bsky.network' },
+    ]);
+  });
+});
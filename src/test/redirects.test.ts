@@ -0,0 +1,105 @@
+/**
+ * Tests for the _redirects parser and matcher (public/redirects.js)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadPublicScript } from './loadPublicScript';
+
+interface RedirectRule {
+  from: string;
+  query: Record<string, string>;
+  to: string;
+  status: number;
+  force: boolean;
+}
+
+interface WispRedirects {
+  parseRedirects: (text: string) => RedirectRule[];
+  isRedirectRule: (rule: RedirectRule) => boolean;
+  matchRedirectRule: (rule: RedirectRule, path: string, searchParams: URLSearchParams) => Record<string, string> | null;
+  expandRedirectTarget: (to: string, params: Record<string, string>) => string;
+}
+
+const { parseRedirects, isRedirectRule, matchRedirectRule, expandRedirectTarget } =
+  loadPublicScript<WispRedirects>('redirects.js', 'WispRedirects');
+
+function rule(line: string): RedirectRule {
+  const [parsed] = parseRedirects(line);
+  if (!parsed) throw new Error(`Not a rule: ${line}`);
+  return parsed;
+}
+
+function match(line: string, url: string) {
+  const { pathname, searchParams } = new URL(url, 'https://example.test');
+  return matchRedirectRule(rule(line), pathname, searchParams);
+}
+
+describe('parseRedirects', () => {
+  it('parses status, force and query conditions', () => {
+    const rules = parseRedirects(`
+      # comment
+      /old  /new
+      /a    /b   302!
+      /search  q=:term  /find/:term  200
+      /blog/*  /posts/:splat  301  Country=us
+    `);
+
+    expect(rules).toEqual([
+      { from: '/old', query: {}, to: '/new', status: 301, force: false },
+      { from: '/a', query: {}, to: '/b', status: 302, force: true },
+      { from: '/search', query: { q: ':term' }, to: '/find/:term', status: 200, force: false },
+      { from: '/blog/*', query: {}, to: '/posts/:splat', status: 301, force: false },
+    ]);
+  });
+
+  it('skips malformed lines and statuses that cannot be served', () => {
+    const rules = parseRedirects(['/only-from', '/a /b 300', '/c /d 304', '/e /f 305', '/g /h 404', '/i /j 308'].join('\n'));
+
+    expect(rules.map((r) => [r.from, r.status])).toEqual([
+      ['/g', 404],
+      ['/i', 308],
+    ]);
+  });
+
+  it('tells redirects apart from rewrites', () => {
+    expect([301, 302, 303, 307, 308].every((status) => isRedirectRule({ ...rule('/a /b'), status }))).toBe(true);
+    expect(isRedirectRule(rule('/a /b 200'))).toBe(false);
+    expect(isRedirectRule(rule('/a /b 404'))).toBe(false);
+  });
+});
+
+describe('matchRedirectRule', () => {
+  it('matches exact paths with or without a trailing slash', () => {
+    expect(match('/about /info', '/about')).toEqual({});
+    expect(match('/about /info', '/about/')).toEqual({});
+    expect(match('/about /info', '/about/team')).toBeNull();
+    expect(match('/about/team /info', '/about')).toBeNull();
+  });
+
+  it('captures placeholders and splats', () => {
+    expect(match('/blog/:year/:slug /posts/:slug', '/blog/2024/hello%20world')).toEqual({
+      year: '2024',
+      slug: 'hello world',
+    });
+    expect(match('/docs/* /v2/:splat', '/docs/guide/intro')).toEqual({ splat: 'guide/intro' });
+    expect(match('/docs/* /v2/:splat', '/docs')).toEqual({ splat: '' });
+  });
+
+  it('treats a malformed escape as no match', () => {
+    expect(match('/blog/:slug /posts/:slug', '/blog/%E0%A4')).toBeNull();
+  });
+
+  it('checks query conditions', () => {
+    expect(match('/search q=:term /find/:term', '/search?q=cats')).toEqual({ term: 'cats' });
+    expect(match('/search q=:term /find/:term', '/search')).toBeNull();
+    expect(match('/store id=42 /item', '/store?id=42')).toEqual({});
+    expect(match('/store id=42 /item', '/store?id=7')).toBeNull();
+  });
+});
+
+describe('expandRedirectTarget', () => {
+  it('substitutes captured params and leaves ports alone', () => {
+    expect(expandRedirectTarget('/posts/:year/:slug', { year: '2024', slug: 'hi' })).toBe('/posts/2024/hi');
+    expect(expandRedirectTarget('https://host:8080/:splat', { splat: 'a/b' })).toBe('https://host:8080/a/b');
+  });
+});
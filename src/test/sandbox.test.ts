@@ -0,0 +1,41 @@
+/**
+ * Tests for checking privacy reports relayed by sandboxed pages (src/utils/sandbox.ts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createReportKey, verifyPrivacyReport } from '../utils/sandbox';
+
+const report = { pageUrl: null, mode: 'block', origins: [{ origin: 'https://tracker.example', requests: 2, blocked: 2 }] };
+
+// Signs the way public/sw.js does
+async function sign(reportKey: string, payload: string): Promise<string> {
+  const keyBytes = Uint8Array.from(atob(reportKey), (char) => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+describe('verifyPrivacyReport', () => {
+  const reportKey = createReportKey();
+  const payload = JSON.stringify({ nonce: 'n1', report });
+
+  it('accepts a report signed with our key for this request', async () => {
+    expect(await verifyPrivacyReport(reportKey, 'n1', payload, await sign(reportKey, payload))).toEqual(report);
+  });
+
+  it('rejects reports signed with another key, or not at all', async () => {
+    expect(await verifyPrivacyReport(reportKey, 'n1', payload, await sign(createReportKey(), payload))).toBeNull();
+    expect(await verifyPrivacyReport(reportKey, 'n1', payload, null)).toBeNull();
+    expect(await verifyPrivacyReport(reportKey, 'n1', payload, 'not base64!')).toBeNull();
+  });
+
+  it('rejects a tampered report', async () => {
+    const signature = await sign(reportKey, payload);
+    const tampered = JSON.stringify({ nonce: 'n1', report: { ...report, origins: [] } });
+    expect(await verifyPrivacyReport(reportKey, 'n1', tampered, signature)).toBeNull();
+  });
+
+  it('rejects a replayed report from an earlier request', async () => {
+    expect(await verifyPrivacyReport(reportKey, 'n2', payload, await sign(reportKey, payload))).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for showing a site in the sandbox iframe (src/components/SandboxFrame.tsx)
+ *
+ * The frame moves itself to the site's /wisp/ route, where App renders it
+ * again; the site and its options have to survive that move.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import App from '../App';
+import { SandboxFrame } from '../components/SandboxFrame';
+import type { SandboxLoadSiteMessage } from '../utils/sandbox';
+import type { WispDirectory } from '../types/lexicon';
+
+const SANDBOX_ORIGIN = 'http://sandbox.test';
+
+const manifest: WispDirectory = {
+  files: { 'index.html': { cid: 'bafkreiindex', mimeType: 'text/html' } },
+};
+
+describe('SandboxFrame', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_SANDBOX_ORIGIN', SANDBOX_ORIGIN);
+    vi.stubEnv('VITE_EXPLORER_ORIGIN', window.location.origin);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("sends the resolver's options to the sandbox after moving to the site's route", async () => {
+    const { container } = render(
+      <MemoryRouter initialEntries={['/start']}>
+        <Routes>
+          <Route
+            path="/start"
+            element={
+              <SandboxFrame
+                sandboxOrigin={SANDBOX_ORIGIN}
+                pdsUrl="https://pds.test"
+                did="did:plc:abc"
+                handle="alice.test"
+                siteName="blog"
+                manifest={manifest}
+                options={{ spaMode: 'off', safeMode: true, privacyMode: 'block', settings: null }}
+                path="/posts/"
+                onBack={() => {}}
+              />
+            }
+          />
+          <Route path="*" element={<App />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    const iframe = container.querySelector('iframe');
+    expect(iframe?.getAttribute('src')).toBe(`${SANDBOX_ORIGIN}/sandbox.html`);
+
+    const frameWindow = iframe!.contentWindow!;
+    const postMessage = vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+
+    await act(async () => {
+      window.dispatchEvent(
+        new MessageEvent('message', { data: { type: 'WISP_SANDBOX_READY' }, origin: SANDBOX_ORIGIN, source: frameWindow })
+      );
+    });
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    const [message, targetOrigin] = postMessage.mock.calls[0] as unknown as [SandboxLoadSiteMessage, string];
+    expect(targetOrigin).toBe(SANDBOX_ORIGIN);
+    expect(message).toMatchObject({
+      type: 'WISP_LOAD_SITE',
+      manifest,
+      pdsUrl: 'https://pds.test',
+      did: 'did:plc:abc',
+      handle: 'alice.test',
+      siteName: 'blog',
+      spaMode: 'off',
+      safeMode: true,
+      privacyMode: 'block',
+      path: 'posts/',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for the service worker's file lookups and blob downloads (public/sw.js)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Blob } from 'node:buffer';
+import { loadServiceWorker } from './loadPublicScript';
+import type { WispDirectory, WispFile } from '../types/lexicon';
+
+interface TestSite {
+  manifest: WispDirectory;
+  settings: { indexFiles: string[] };
+}
+
+interface WispServiceWorker {
+  lookupNotFoundPage: (site: TestSite, requestPath: string) => { file: WispFile; path: string } | null;
+}
+
+const { lookupNotFoundPage } = loadServiceWorker<WispServiceWorker>();
+
+function file(cid: string): WispFile {
+  return { cid, mimeType: 'text/html' };
+}
+
+const site: TestSite = {
+  settings: { indexFiles: ['index.html'] },
+  manifest: {
+    files: { '404.html': file('root-404'), 'index.html': file('index') },
+    dirs: {
+      docs: {
+        files: { '404.html': file('docs-404') },
+        dirs: { guide: { files: { 'intro.html': file('intro') } } },
+      },
+      blog: { files: {} },
+    },
+  },
+};
+
+function notFoundPath(requestPath: string) {
+  return lookupNotFoundPage(site, requestPath)?.path ?? null;
+}
+
+describe('lookupNotFoundPage', () => {
+  it("serves the root 404.html for the site's root", () => {
+    expect(notFoundPath('/')).toBe('404.html');
+    expect(notFoundPath('')).toBe('404.html');
+  });
+
+  it("checks a missing directory's own 404.html first", () => {
+    expect(notFoundPath('/docs/')).toBe('docs/404.html');
+    expect(notFoundPath('/docs')).toBe('docs/404.html');
+    expect(notFoundPath('/docs/missing/')).toBe('docs/404.html');
+  });
+
+  it('uses the nearest 404.html above a missing file', () => {
+    expect(notFoundPath('/docs/missing.html')).toBe('docs/404.html');
+    expect(notFoundPath('/docs/guide/missing.html')).toBe('docs/404.html');
+    expect(notFoundPath('/blog/missing.html')).toBe('404.html');
+    expect(notFoundPath('/missing.html')).toBe('404.html');
+  });
+
+  it('finds nothing when the site has no 404.html', () => {
+    expect(lookupNotFoundPage({ ...site, manifest: { files: {} } }, '/docs/')).toBeNull();
+  });
+});
+
+describe('blob downloads', () => {
+  const pdsUrl = 'https://pds.example';
+  const blobSite = { pdsUrl, did: 'did:plc:abc', siteName: 'site' };
+
+  function loadWithFetch(fetch: (url: string) => Promise<Response>) {
+    const timers: (() => void)[] = [];
+    const sw = loadServiceWorker<
+      WispServiceWorker & {
+        downloadBlob: (site: typeof blobSite, cid: string) => Promise<Uint8Array>;
+        fetchBlobFromPDS: (site: typeof blobSite, file: WispFile) => Promise<Response>;
+        getBlob: () => Promise<null>;
+        storeBlob: () => Promise<void>;
+        enforceCacheBudget: () => Promise<void>;
+      }
+    >({
+      fetch,
+      setTimeout: (callback: () => void) => timers.push(callback),
+      Response,
+      // Node's Blob rather than jsdom's, so Response can read it
+      Blob,
+      TextDecoder,
+      atob,
+    });
+    sw.getBlob = async () => null;
+    sw.storeBlob = async () => {};
+    sw.enforceCacheBudget = async () => {};
+    return { sw, timers };
+  }
+
+  it('frees the PDS slot while a request backs off', async () => {
+    const requested: string[] = [];
+    const { sw, timers } = loadWithFetch(async (url) => {
+      const cid = new URL(url).searchParams.get('cid')!;
+      requested.push(cid);
+      return cid === 'fresh'
+        ? new Response('ok')
+        : new Response(null, { status: 429, statusText: 'Too Many Requests' });
+    });
+
+    // Fill every slot with requests that are rate-limited and back off
+    for (let i = 0; i < 6; i++) {
+      void sw.downloadBlob(blobSite, `limited-${i}`).catch(() => {});
+    }
+    await vi.waitFor(() => expect(timers).toHaveLength(6));
+
+    const fresh = await sw.downloadBlob(blobSite, 'fresh');
+    expect(new TextDecoder().decode(fresh)).toBe('ok');
+    expect(requested).toContain('fresh');
+  });
+
+  it('shares one download but decodes it for each file', async () => {
+    const fetch = vi.fn(async () => new Response(btoa('hello world')));
+    const { sw } = loadWithFetch(fetch);
+
+    const [encoded, plain] = await Promise.all([
+      sw.fetchBlobFromPDS(blobSite, { cid: 'shared', mimeType: 'text/plain', base64: true }),
+      sw.fetchBlobFromPDS(blobSite, { cid: 'shared', mimeType: 'text/plain', base64: false }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(encoded.headers.get('X-Wisp-Cache')).toBe('MISS');
+    expect(plain.headers.get('X-Wisp-Cache')).toBe('SHARED');
+    expect(await encoded.text()).toBe('hello world');
+    expect(await plain.text()).toBe(btoa('hello world'));
+  });
+});
@@ -2,6 +2,88 @@
  * ATProto-related types for the client
  */
 
+/**
+ * How a handle was resolved to a DID
+ * - dns: `_atproto.<handle>` TXT record via DNS-over-HTTPS
+ * - well-known: `https://<handle>/.well-known/atproto-did`
+ * - appview: Bluesky AppView `com.atproto.identity.resolveHandle`
+ * - did: input was already a DID
+ */
+export type HandleResolutionMethod = 'dns' | 'well-known' | 'appview' | 'did';
+
+/**
+ * Whether a handle and DID point at each other
+ * - verified: the handle resolves to the DID and the DID document lists `at://<handle>`
+ * - unverified: the DID document does not claim the handle
+ */
+export type HandleVerificationStatus = 'verified' | 'unverified';
+
+/**
+ * DID document (subset of fields used by atproto)
+ */
+export interface DidDocument {
+  '@context'?: string | Array<string | Record<string, unknown>>;
+  id: string;
+  alsoKnownAs?: string[];
+  verificationMethod?: Array<{
+    id: string;
+    type: string;
+    controller: string;
+    publicKeyMultibase?: string;
+  }>;
+  service?: Array<{
+    id: string;
+    type: string;
+    serviceEndpoint: string | Record<string, unknown>;
+  }>;
+}
+
+/**
+ * did:plc operation (current format)
+ */
+export interface PlcOperation {
+  type: 'plc_operation';
+  rotationKeys: string[];
+  verificationMethods: Record<string, string>;
+  alsoKnownAs: string[];
+  services: Record<string, { type: string; endpoint: string }>;
+  prev: string | null;
+  sig: string;
+}
+
+/**
+ * did:plc tombstone (account deactivated in the directory)
+ */
+export interface PlcTombstone {
+  type: 'plc_tombstone';
+  prev: string;
+  sig: string;
+}
+
+/**
+ * did:plc genesis operation (legacy format)
+ */
+export interface PlcLegacyCreate {
+  type: 'create';
+  signingKey: string;
+  recoveryKey: string;
+  handle: string;
+  service: string;
+  prev: null;
+  sig: string;
+}
+
+/**
+ * Entry in a PLC directory audit log (`/{did}/log/audit`)
+ */
+export interface PlcAuditEntry {
+  did: string;
+  operation: PlcOperation | PlcTombstone | PlcLegacyCreate;
+  cid: string;
+  nullified: boolean;
+  createdAt: string;
+}
+
 /**
  * Resolution result from handle/DID to PDS
  */
@@ -9,6 +91,9 @@ export interface ResolutionResult {
   handle?: string;
   did: string;
   pdsUrl: string;
+  resolutionMethod?: HandleResolutionMethod; // Only set when a handle was resolved
+  handleVerification?: HandleVerificationStatus; // Only set when a handle is known
+  didDocument?: DidDocument; // Full DID document, for inspection
 }
 
 /**
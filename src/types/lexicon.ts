@@ -1,5 +1,5 @@
 /**
- * Lexicon record parsing for place.wisp.fs and place.wisp.subfs
+ * Lexicon record parsing for place.wisp.fs, place.wisp.subfs and place.wisp.settings
  *
  * These types are adapted from the shared code for the browser client.
  */
@@ -11,6 +11,8 @@ export interface WispFile {
   cid: string; // Blob CID for the file content
   mimeType?: string; // MIME type from manifest
   size?: number; // File size in bytes (optional)
+  encoding?: string; // Content encoding of the stored blob (e.g. 'gzip')
+  base64?: boolean; // Blob holds base64 text; always set for new-format records, absent for legacy ones
 }
 
 /**
@@ -39,10 +41,22 @@ export interface WispDirectoryNew {
   type: 'directory';
   entries?: Array<{
     name: string;
-    node: WispFileNode | WispDirectoryNew;
+    node: WispFileNode | WispDirectoryNew | WispSubfsNode;
   }>;
 }
 
+/**
+ * Wisp subfs node (new format) - a reference to a place.wisp.subfs record
+ * whose tree is spliced in at this entry. With `flat` (the default) its
+ * entries are merged into the parent directory; otherwise it becomes a
+ * subdirectory named after the entry.
+ */
+export interface WispSubfsNode {
+  type: 'subfs';
+  subject: string; // AT-URI of the place.wisp.subfs record
+  flat?: boolean;
+}
+
 /**
  * CID object (as deserialized by @atproto/api)
  */
@@ -82,7 +96,42 @@ export interface WispFileNode {
  */
 export interface PlaceWispSubfsRecord {
   $type: 'place.wisp.subfs';
-  directory: WispDirectory | WispDirectoryNew; // Directory subtree (can be either format)
+  root?: WispDirectoryNew; // Directory subtree (new format)
+  directory?: WispDirectory | WispDirectoryNew; // Directory subtree (legacy field, can be either format)
+}
+
+/**
+ * Custom response header from a place.wisp.settings record
+ */
+export interface WispCustomHeader {
+  name: string;
+  value: string;
+  path?: string; // Path pattern the header applies to (supports a trailing '*'); all paths if omitted
+}
+
+/**
+ * place.wisp.settings record structure (stored with the same rkey as the site's place.wisp.fs record)
+ */
+export interface PlaceWispSettingsRecord {
+  $type: 'place.wisp.settings';
+  directoryListing?: boolean; // Show a listing for directories without an index file
+  spaMode?: string; // File to serve for unknown routes (enables SPA mode)
+  custom404?: string; // File to serve for missing paths
+  indexFiles?: string[]; // Index file names to try, in order
+  cleanUrls?: boolean; // Serve /page from /page.html
+  headers?: WispCustomHeader[];
+}
+
+/**
+ * Serving policy for a site, with defaults applied
+ */
+export interface WispSiteSettings {
+  directoryListing: boolean;
+  spaMode?: string;
+  custom404?: string;
+  indexFiles: string[];
+  cleanUrls: boolean;
+  headers: WispCustomHeader[];
 }
 
 /**
@@ -122,7 +171,7 @@ export class LexiconParseError extends Error {
  */
 export function validateRecordType(
   record: unknown,
-  expectedType: 'place.wisp.fs' | 'place.wisp.subfs'
+  expectedType: 'place.wisp.fs' | 'place.wisp.subfs' | 'place.wisp.settings'
 ): boolean {
   if (!record || typeof record !== 'object') {
     return false;
@@ -199,8 +248,13 @@ export function isValidDirectoryNew(dir: unknown): boolean {
     const nodeType = (node as { type: string }).type;
     const isFile = nodeType === 'file' || nodeType === 'place.wisp.fs#file';
     const isDirectory = nodeType === 'directory' || nodeType === 'place.wisp.fs#directory';
+    const isSubfs = nodeType === 'subfs' || nodeType === 'place.wisp.fs#subfs';
 
-    if (isFile) {
+    if (isSubfs) {
+      if (!isValidSubfsNode(node)) {
+        return false;
+      }
+    } else if (isFile) {
       if (!isValidFileNode(node as WispFileNode)) {
         return false;
       }
@@ -268,11 +322,60 @@ export function isValidFileNode(node: unknown): boolean {
   return true;
 }
 
+/**
+ * Check whether a node is a subfs reference
+ */
+export function isSubfsNode(node: unknown): node is WispSubfsNode {
+  if (!node || typeof node !== 'object') {
+    return false;
+  }
+  const nodeType = (node as { type?: string }).type;
+  return nodeType === 'subfs' || nodeType === 'place.wisp.fs#subfs';
+}
+
+/**
+ * Validate subfs node (new format)
+ */
+export function isValidSubfsNode(node: unknown): boolean {
+  if (!isSubfsNode(node)) {
+    return false;
+  }
+  if (typeof node.subject !== 'string' || !node.subject.startsWith('at://')) {
+    return false;
+  }
+  return node.flat === undefined || typeof node.flat === 'boolean';
+}
+
+/**
+ * Collect the AT-URIs of all subfs records referenced by a directory tree
+ */
+export function collectSubfsUris(dirNew: WispDirectoryNew): string[] {
+  const uris: string[] = [];
+
+  for (const entry of dirNew.entries ?? []) {
+    const nodeType = (entry.node as { type: string }).type;
+
+    if (isSubfsNode(entry.node)) {
+      uris.push(entry.node.subject);
+    } else if (nodeType === 'directory' || nodeType === 'place.wisp.fs#directory') {
+      uris.push(...collectSubfsUris(entry.node as WispDirectoryNew));
+    }
+  }
+
+  return uris;
+}
+
 /**
  * Convert new directory format to old format
+ *
+ * Subfs nodes are replaced by the matching tree from `subfsTrees` (keyed by
+ * AT-URI). References without a loaded tree are skipped.
  */
-export function convertDirectoryNewToOld(dirNew: WispDirectoryNew): WispDirectory {
-  const dir: WispDirectory = { files: {}, dirs: {} };
+export function convertDirectoryNewToOld(
+  dirNew: WispDirectoryNew,
+  subfsTrees: Map<string, WispDirectoryNew | WispDirectory> = new Map()
+): WispDirectory {
+  let dir: WispDirectory = { files: {}, dirs: {} };
 
   if (!dirNew.entries || dirNew.entries.length === 0) {
     return dir;
@@ -298,10 +401,30 @@ export function convertDirectoryNewToOld(dirNew: WispDirectoryNew): WispDirector
         cid,
         mimeType,
         size: fileNode.blob.size,
+        base64: fileNode.base64 ?? false,
+        ...(fileNode.encoding ? { encoding: fileNode.encoding } : {}),
       };
     } else if (nodeType === 'directory' || nodeType === 'place.wisp.fs#directory') {
       const dirNode = entry.node as WispDirectoryNew;
-      dir.dirs![entry.name] = convertDirectoryNewToOld(dirNode);
+      dir.dirs![entry.name] = convertDirectoryNewToOld(dirNode, subfsTrees);
+    } else if (isSubfsNode(node)) {
+      const subtree = subfsTrees.get(node.subject);
+      if (!subtree) {
+        continue;
+      }
+
+      // Remove the reference before recursing so a cycle can't recurse forever
+      const remaining = new Map(subfsTrees);
+      remaining.delete(node.subject);
+      const converted = 'type' in subtree
+        ? convertDirectoryNewToOld(subtree as WispDirectoryNew, remaining)
+        : (subtree as WispDirectory);
+
+      if (node.flat === false) {
+        dir.dirs![entry.name] = mergeDirectories(dir.dirs![entry.name], converted);
+      } else {
+        dir = mergeDirectories(dir, converted);
+      }
     }
   }
 
@@ -333,8 +456,27 @@ export function parsePlaceWispSubfs(record: unknown): PlaceWispSubfsRecord {
   }
 
   const parsed = record as Record<string, unknown>;
+
+  // New format stores the tree under `root`
+  if (parsed.root !== undefined) {
+    if (!isValidDirectoryNew(parsed.root)) {
+      throw new LexiconParseError('Invalid root structure in place.wisp.subfs', record);
+    }
+    return {
+      $type: 'place.wisp.subfs',
+      root: parsed.root as WispDirectoryNew,
+    };
+  }
+
   const directory = parsed.directory;
 
+  if (isValidDirectoryNew(directory)) {
+    return {
+      $type: 'place.wisp.subfs',
+      directory: directory as WispDirectoryNew,
+    };
+  }
+
   if (!isValidDirectory(directory)) {
     throw new LexiconParseError('Invalid directory structure in place.wisp.subfs', record);
   }
@@ -345,6 +487,78 @@ export function parsePlaceWispSubfs(record: unknown): PlaceWispSubfsRecord {
   };
 }
 
+/**
+ * Get the default serving policy (used when a site has no settings record)
+ */
+export function getDefaultSiteSettings(): WispSiteSettings {
+  return {
+    directoryListing: true,
+    indexFiles: ['index.html', 'index.htm'],
+    cleanUrls: true,
+    headers: [],
+  };
+}
+
+/**
+ * Whether a custom header is one a site may not set: the explorer's own X-Wisp-* headers
+ * A site's Content-Security-Policy is kept; safe and privacy mode add their own next to it.
+ */
+function isReservedHeaderName(name: string): boolean {
+  return name.toLowerCase().startsWith('x-wisp-');
+}
+
+/**
+ * Parse a place.wisp.settings record into a serving policy
+ * Invalid or missing fields fall back to the defaults.
+ */
+export function parsePlaceWispSettings(record: unknown): WispSiteSettings {
+  if (!validateRecordType(record, 'place.wisp.settings')) {
+    throw new LexiconParseError('Invalid place.wisp.settings record type', record);
+  }
+
+  const parsed = record as Partial<PlaceWispSettingsRecord>;
+  const settings = getDefaultSiteSettings();
+
+  if (typeof parsed.directoryListing === 'boolean') {
+    settings.directoryListing = parsed.directoryListing;
+  }
+
+  if (typeof parsed.cleanUrls === 'boolean') {
+    settings.cleanUrls = parsed.cleanUrls;
+  }
+
+  if (typeof parsed.spaMode === 'string' && parsed.spaMode.trim()) {
+    settings.spaMode = normalizePath(parsed.spaMode);
+  }
+
+  if (typeof parsed.custom404 === 'string' && parsed.custom404.trim()) {
+    settings.custom404 = normalizePath(parsed.custom404);
+  }
+
+  if (Array.isArray(parsed.indexFiles)) {
+    const indexFiles = parsed.indexFiles.filter(
+      (name): name is string => typeof name === 'string' && name.length > 0 && !name.includes('/')
+    );
+    if (indexFiles.length > 0) {
+      settings.indexFiles = indexFiles;
+    }
+  }
+
+  if (Array.isArray(parsed.headers)) {
+    settings.headers = parsed.headers.filter(
+      (header): header is WispCustomHeader =>
+        !!header &&
+        typeof header.name === 'string' &&
+        /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(header.name) &&
+        !isReservedHeaderName(header.name) &&
+        typeof header.value === 'string' &&
+        (header.path === undefined || typeof header.path === 'string')
+    );
+  }
+
+  return settings;
+}
+
 /**
  * Validate a directory structure recursively
  */
@@ -409,6 +623,14 @@ export function isValidFileEntry(entry: unknown): boolean {
     return false;
   }
 
+  if (e.encoding !== undefined && typeof e.encoding !== 'string') {
+    return false;
+  }
+
+  if (e.base64 !== undefined && typeof e.base64 !== 'boolean') {
+    return false;
+  }
+
   return true;
 }
 
@@ -5,190 +5,334 @@
  */
 
 import { createLogger } from './logger';
+import { resolveDidWeb } from './didWeb';
+import { withRetry } from './retry';
 import type {
-  PlaceWispFsRecord,
-  PlaceWispSubfsRecord,
-  WispDirectory,
+  DidDocument,
+  HandleResolutionMethod,
+  HandleVerificationStatus,
+  PlcAuditEntry,
+} from '../types/atproto';
+import {
+  collectSubfsUris,
+  convertDirectoryNewToOld,
+  parsePlaceWispSettings,
+  parsePlaceWispSubfs,
+  type PlaceWispFsRecord,
+  type PlaceWispSubfsRecord,
+  type WispDirectory,
+  type WispDirectoryNew,
+  type WispSiteSettings,
 } from '../types/lexicon';
 
 const logger = createLogger({ prefix: 'atproto' });
 
+const DEFAULT_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+const APPVIEW_RESOLVE_HANDLE_URL = 'https://api.bsky.app/xrpc/com.atproto.identity.resolveHandle';
+
 /**
- * Extract domain from a did:web DID
- * @param did - The did:web DID (e.g., "did:web:example.com")
- * @returns The domain (e.g., "example.com")
+ * Outcome of resolving a handle, including which step of the chain answered
  */
-function extractDomainFromDidWeb(did: string): string {
-  if (!did.startsWith('did:web:')) {
-    throw new Error(`Not a did:web: ${did}`);
+export interface HandleResolution {
+  did: string;
+  method: HandleResolutionMethod;
+}
+
+/**
+ * Extract the DID from a `did=...` TXT record value
+ */
+function parseDidTxtRecord(value: string): string | null {
+  // DoH JSON answers wrap TXT strings in quotes and may split long values
+  const unquoted = value.replace(/"\s*"/g, '').replace(/^"|"$/g, '');
+  if (!unquoted.startsWith('did=')) {
+    return null;
   }
-  const domain = did.slice('did:web:'.length);
-  // Convert escaped colons back to dots (e.g., "did:web:example%3Acom" -> "example.com")
-  return domain.replace(/%3A/gi, ':').replace(/%2F/gi, '/');
+  const did = unquoted.slice('did='.length).trim();
+  return did.startsWith('did:') ? did : null;
 }
 
 /**
- * Resolve a handle to a DID using the Bluesky Identity API
+ * Resolve a handle through the `_atproto.<handle>` TXT record using DNS-over-HTTPS
  */
-export async function resolveHandleToDid(handle: string): Promise<string> {
-  // Remove @ prefix if present
-  const cleanHandle = handle.startsWith('@') ? handle.slice(1) : handle;
+export async function resolveHandleViaDns(handle: string): Promise<string> {
+  const dohUrl = import.meta.env.VITE_DOH_URL || DEFAULT_DOH_URL;
+  const url = new URL(dohUrl);
+  url.searchParams.set('name', `_atproto.${handle}`);
+  url.searchParams.set('type', 'TXT');
 
-  logger.debug(`Resolving handle '${cleanHandle}' to DID`);
+  logger.debug(`Resolving handle '${handle}' via DNS TXT (${url.origin})`);
+
+  const response = await fetch(url.toString(), {
+    headers: { Accept: 'application/dns-json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`DNS lookup for '_atproto.${handle}' failed: ${response.statusText}`);
+  }
 
-  // Use Bluesky API for handle resolution
-  const bskyApiUrl = 'https://api.bsky.app/xrpc/com.atproto.identity.resolveHandle';
-  const url = `${bskyApiUrl}?handle=${encodeURIComponent(cleanHandle)}`;
+  const data = (await response.json()) as {
+    Status?: number;
+    Answer?: Array<{ type?: number; data?: string }>;
+  };
+
+  // TXT records are type 16; CNAMEs and other answers in the chain are skipped
+  const dids = new Set<string>();
+  for (const answer of data.Answer ?? []) {
+    if (answer.type !== 16 || typeof answer.data !== 'string') continue;
+    const did = parseDidTxtRecord(answer.data);
+    if (did) dids.add(did);
+  }
+
+  if (dids.size === 0) {
+    throw new Error(`No _atproto TXT record found for '${handle}'`);
+  }
+  if (dids.size > 1) {
+    throw new Error(`Multiple conflicting _atproto TXT records found for '${handle}'`);
+  }
+
+  return [...dids][0];
+}
+
+/**
+ * Resolve a handle through `https://<handle>/.well-known/atproto-did`
+ */
+export async function resolveHandleViaWellKnown(handle: string): Promise<string> {
+  const url = `https://${handle}/.well-known/atproto-did`;
+
+  logger.debug(`Resolving handle '${handle}' via ${url}`);
 
   const response = await fetch(url);
 
   if (!response.ok) {
-    // Try direct DID resolution for DIDs passed as input
-    if (cleanHandle.startsWith('did:')) {
-      // For did:web, verify by fetching from the domain's .well-known/did.json
-      if (cleanHandle.startsWith('did:web:')) {
-        logger.debug(`Input appears to be a did:web, verifying via .well-known/did.json`);
-        const domain = extractDomainFromDidWeb(cleanHandle);
-        const webUrl = `https://${domain}/.well-known/did.json`;
-        const webResponse = await fetch(webUrl);
-        if (!webResponse.ok) {
-          throw new Error(`Failed to verify did:web '${cleanHandle}': ${webResponse.statusText}`);
-        }
-        const didDocument = await webResponse.json() as { id?: string };
-        if (!didDocument?.id || didDocument.id !== cleanHandle) {
-          throw new Error(`Invalid DID document for '${cleanHandle}'`);
-        }
-        logger.debug(`Verified did:web: ${cleanHandle}`);
-        return cleanHandle;
-      }
+    throw new Error(`Failed to fetch '${url}': ${response.statusText}`);
+  }
 
-      // For other DIDs, try PLC directory
-      logger.debug(`Input appears to be a DID, using PLC directory`);
-      const plcUrl = import.meta.env.VITE_PLC_DIRECTORY || 'https://plc.directory';
-      const plcResponse = await fetch(`${plcUrl}/${cleanHandle}`);
-      if (!plcResponse.ok) {
-        throw new Error(`Failed to resolve DID '${cleanHandle}': ${plcResponse.statusText}`);
-      }
-      const didDocument = await plcResponse.json() as { id?: string };
-      if (!didDocument?.id || !didDocument.id.startsWith('did:')) {
-        throw new Error(`Invalid DID document for '${cleanHandle}'`);
-      }
-      logger.debug(`Resolved '${cleanHandle}' to DID: ${didDocument.id}`);
-      return didDocument.id;
-    }
+  const did = (await response.text()).trim();
+  if (!did.startsWith('did:')) {
+    throw new Error(`Invalid DID returned from '${url}'`);
+  }
+
+  return did;
+}
+
+/**
+ * Resolve a handle through the Bluesky AppView
+ */
+export async function resolveHandleViaAppView(handle: string): Promise<string> {
+  const url = `${APPVIEW_RESOLVE_HANDLE_URL}?handle=${encodeURIComponent(handle)}`;
+
+  logger.debug(`Resolving handle '${handle}' via AppView`);
+
+  const response = await fetch(url);
 
-    throw new Error(`Failed to resolve handle '${cleanHandle}': ${response.statusText}`);
+  if (!response.ok) {
+    throw new Error(`AppView could not resolve '${handle}': ${response.statusText}`);
   }
 
   const data = await response.json() as { did?: string };
 
   if (!data || !data.did || !data.did.startsWith('did:')) {
-    throw new Error(`Invalid response for handle '${cleanHandle}'`);
+    throw new Error(`Invalid AppView response for handle '${handle}'`);
   }
 
-  logger.debug(`Resolved '${cleanHandle}' to DID: ${data.did}`);
   return data.did;
 }
 
 /**
- * Extract PDS endpoint from a DID document
+ * Resolve a DID passed where a handle was expected by checking its DID document
  */
-export async function getPdsEndpoint(did: string): Promise<string> {
-  logger.debug(`Getting PDS endpoint for DID: ${did}`);
-
-  // Handle did:web by fetching from the domain's .well-known/did.json
+async function resolveDidInput(did: string): Promise<string> {
+  // For did:web, verify by fetching the document it points at
   if (did.startsWith('did:web:')) {
-    const domain = extractDomainFromDidWeb(did);
-    const webUrl = `https://${domain}/.well-known/did.json`;
+    logger.debug(`Input appears to be a did:web, verifying its DID document`);
+    await resolveDidWeb(did);
+    logger.debug(`Verified did:web: ${did}`);
+    return did;
+  }
 
-    logger.debug(`Fetching did:web document from: ${webUrl}`);
+  // For other DIDs, try PLC directory
+  logger.debug(`Input appears to be a DID, using PLC directory`);
+  const plcUrl = import.meta.env.VITE_PLC_DIRECTORY || 'https://plc.directory';
+  const plcResponse = await fetch(`${plcUrl}/${did}`);
+  if (!plcResponse.ok) {
+    throw new Error(`Failed to resolve DID '${did}': ${plcResponse.statusText}`);
+  }
+  const didDocument = await plcResponse.json() as { id?: string };
+  if (!didDocument?.id || !didDocument.id.startsWith('did:')) {
+    throw new Error(`Invalid DID document for '${did}'`);
+  }
+  logger.debug(`Resolved '${did}' to DID: ${didDocument.id}`);
+  return didDocument.id;
+}
 
-    try {
-      const response = await fetch(webUrl);
+/**
+ * Resolve a handle to a DID
+ *
+ * Follows the atproto handle resolution chain: DNS TXT first, then the
+ * HTTPS well-known endpoint, and the Bluesky AppView only as a last resort.
+ */
+export async function resolveHandleToDid(handle: string): Promise<HandleResolution> {
+  // Remove @ prefix if present
+  const input = handle.startsWith('@') ? handle.slice(1) : handle;
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch did:web document from '${webUrl}': ${response.statusText}`);
-      }
+  if (input.startsWith('did:')) {
+    return { did: await resolveDidInput(input), method: 'did' };
+  }
 
-      const didDocument = (await response.json()) as {
-        service?: Array<{
-          id?: string;
-          type?: string;
-          serviceEndpoint?: string;
-        }>;
-      };
-      const services = didDocument?.service;
-
-      if (!Array.isArray(services)) {
-        throw new Error(`No services found in did:web document for '${did}'`);
-      }
+  // Handles are case-insensitive
+  const cleanHandle = input.toLowerCase();
 
-      for (const service of services) {
-        if (
-          service.id === '#atproto_pds' ||
-          service.type === 'AtprotoPersonalDataServer'
-        ) {
-          if (!service.serviceEndpoint) {
-            throw new Error(`PDS service found but no endpoint for DID '${did}'`);
-          }
-          logger.debug(`Found PDS endpoint for did:web: ${service.serviceEndpoint}`);
-          return service.serviceEndpoint;
-        }
-      }
+  logger.debug(`Resolving handle '${cleanHandle}' to DID`);
+
+  const strategies: Array<[HandleResolutionMethod, (h: string) => Promise<string>]> = [
+    ['dns', resolveHandleViaDns],
+    ['well-known', resolveHandleViaWellKnown],
+    ['appview', resolveHandleViaAppView],
+  ];
 
-      throw new Error(`Could not find PDS endpoint in did:web document for '${did}'`);
+  const failures: string[] = [];
+
+  for (const [method, strategy] of strategies) {
+    try {
+      const did = await strategy(cleanHandle);
+      logger.debug(`Resolved '${cleanHandle}' to DID via ${method}: ${did}`);
+      return { did, method };
     } catch (error) {
-      logger.error(`Failed to get PDS endpoint for did:web '${did}'`, { error });
-      throw new Error(`Failed to get PDS endpoint for did:web '${did}': ${error}`);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug(`Handle resolution via ${method} failed for '${cleanHandle}'`, { error: message });
+      failures.push(`${method}: ${message}`);
     }
   }
 
+  throw new Error(`Failed to resolve handle '${cleanHandle}' (${failures.join('; ')})`);
+}
+
+/**
+ * Fetch the DID document for a did:plc or did:web identity
+ */
+export async function fetchDidDocument(did: string): Promise<DidDocument> {
+  if (did.startsWith('did:web:')) {
+    return resolveDidWeb(did);
+  }
+
   // Try PLC directory for did:plc and other DIDs
   const plcUrl = import.meta.env.VITE_PLC_DIRECTORY || 'https://plc.directory';
   const url = `${plcUrl}/${did}`;
 
-  logger.debug(`Fetching DID document from PLC directory: ${url}`);
+  logger.debug(`Fetching DID document from: ${url}`);
 
-  try {
-    const response = await fetch(url);
+  const response = await fetch(url);
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch DID document: ${response.statusText}`);
-    }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch DID document from '${url}': ${response.statusText}`);
+  }
 
-    const didDocument = (await response.json()) as {
-      service?: Array<{
-        id?: string;
-        type?: string;
-        serviceEndpoint?: string;
-      }>;
-    };
-    const services = didDocument?.service;
+  const didDocument = (await response.json()) as DidDocument;
 
-    if (!Array.isArray(services)) {
-      throw new Error(`No services found in DID document for '${did}'`);
-    }
+  if (!didDocument || typeof didDocument !== 'object') {
+    throw new Error(`Invalid DID document for '${did}'`);
+  }
+  if (didDocument.id !== did) {
+    throw new Error(`DID document id '${didDocument.id}' does not match '${did}'`);
+  }
 
-    for (const service of services) {
-      if (
-        service.id === '#atproto_pds' ||
-        service.type === 'AtprotoPersonalDataServer'
-      ) {
-        if (!service.serviceEndpoint) {
-          throw new Error(`PDS service found but no endpoint for DID '${did}'`);
-        }
-        logger.debug(`Found PDS endpoint: ${service.serviceEndpoint}`);
-        return service.serviceEndpoint;
+  return didDocument;
+}
+
+/**
+ * Extract the PDS endpoint from an already-fetched DID document
+ */
+export function getPdsEndpointFromDocument(did: string, didDocument: DidDocument): string {
+  const services = didDocument.service;
+
+  if (!Array.isArray(services)) {
+    throw new Error(`No services found in DID document for '${did}'`);
+  }
+
+  for (const service of services) {
+    if (
+      service.id === '#atproto_pds' ||
+      service.id === `${did}#atproto_pds` ||
+      service.type === 'AtprotoPersonalDataServer'
+    ) {
+      if (typeof service.serviceEndpoint !== 'string' || !service.serviceEndpoint) {
+        throw new Error(`PDS service found but no endpoint for DID '${did}'`);
       }
+      logger.debug(`Found PDS endpoint: ${service.serviceEndpoint}`);
+      return service.serviceEndpoint;
     }
+  }
 
-    throw new Error(`Could not find PDS endpoint in DID document for '${did}'`);
+  throw new Error(`Could not find PDS endpoint in DID document for '${did}'`);
+}
+
+/**
+ * Extract PDS endpoint from a DID document
+ */
+export async function getPdsEndpoint(did: string): Promise<string> {
+  logger.debug(`Getting PDS endpoint for DID: ${did}`);
+
+  try {
+    const didDocument = await fetchDidDocument(did);
+    return getPdsEndpointFromDocument(did, didDocument);
   } catch (error) {
     logger.error(`Failed to get PDS endpoint for DID '${did}'`, { error });
     throw new Error(`Failed to get PDS endpoint for DID '${did}': ${error}`);
   }
 }
 
+/**
+ * List the handles a DID document claims through `at://` alsoKnownAs entries
+ */
+export function getHandlesFromDocument(didDocument: DidDocument): string[] {
+  return (didDocument.alsoKnownAs ?? [])
+    .filter((aka) => aka.startsWith('at://'))
+    .map((aka) => aka.slice('at://'.length).toLowerCase());
+}
+
+/**
+ * Check that a handle and a DID point at each other
+ *
+ * The handle must resolve to the DID (already done by the caller) and the DID
+ * document must list `at://<handle>` in alsoKnownAs.
+ */
+export function verifyHandleInDocument(
+  handle: string,
+  didDocument: DidDocument
+): HandleVerificationStatus {
+  const cleanHandle = (handle.startsWith('@') ? handle.slice(1) : handle).toLowerCase();
+  return getHandlesFromDocument(didDocument).includes(cleanHandle) ? 'verified' : 'unverified';
+}
+
+/**
+ * Fetch the operation history for a did:plc identity from the PLC directory
+ */
+export async function fetchPlcAuditLog(did: string): Promise<PlcAuditEntry[]> {
+  if (!did.startsWith('did:plc:')) {
+    throw new Error(`Audit logs are only available for did:plc identities, got '${did}'`);
+  }
+
+  const plcUrl = import.meta.env.VITE_PLC_DIRECTORY || 'https://plc.directory';
+  const url = `${plcUrl}/${did}/log/audit`;
+
+  logger.debug(`Fetching PLC audit log from: ${url}`);
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PLC audit log for '${did}': ${response.statusText}`);
+  }
+
+  const entries = (await response.json()) as PlcAuditEntry[];
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid PLC audit log for '${did}'`);
+  }
+
+  logger.debug(`Fetched ${entries.length} PLC operations for ${did}`);
+  return entries;
+}
+
 /**
  * Fetch a blob from PDS using XRPC
  */
@@ -265,53 +409,90 @@ export async function fetchWispFsRecords(
 }
 
 /**
- * Fetch place.wisp.subfs records from PDS
+ * Parse an AT-URI of the form at://{did}/{collection}/{rkey}
  */
-export async function fetchWispSubfsRecords(
-  pdsUrl: string,
-  did: string
-): Promise<Array<{ rkey: string; value: unknown }>> {
-  const records: Array<{ rkey: string; value: unknown }> = [];
-  let cursor: string | undefined = undefined;
-
-  logger.debug(`Fetching place.wisp.subfs records for ${did}`);
+export function parseAtUri(uri: string): { did: string; collection: string; rkey: string } {
+  const match = uri.match(/^at:\/\/([^/]+)\/([^/]+)\/([^/?#]+)$/);
+  if (!match) {
+    throw new Error(`Invalid AT-URI: ${uri}`);
+  }
+  const [, did, collection, rkey] = match;
+  return { did, collection, rkey };
+}
 
-  do {
-    const url = new URL(`${pdsUrl}/xrpc/com.atproto.repo.listRecords`);
-    url.searchParams.set('repo', did);
-    url.searchParams.set('collection', 'place.wisp.subfs');
-    url.searchParams.set('limit', '100');
-    if (cursor) {
-      url.searchParams.set('cursor', cursor);
-    }
+/**
+ * Fetch a single place.wisp.subfs record from PDS
+ */
+export async function fetchWispSubfsRecord(
+  pdsUrl: string,
+  did: string,
+  rkey: string
+): Promise<PlaceWispSubfsRecord> {
+  const url = new URL(`${pdsUrl}/xrpc/com.atproto.repo.getRecord`);
+  url.searchParams.set('repo', did);
+  url.searchParams.set('collection', 'place.wisp.subfs');
+  url.searchParams.set('rkey', rkey);
 
-    const response = await fetch(url.toString());
+  const response = await fetch(url.toString());
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to list place.wisp.subfs records: ${response.statusText}`
-      );
-    }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch place.wisp.subfs record '${rkey}': ${response.statusText}`);
+  }
 
-    const data = (await response.json()) as {
-      records?: Array<{ uri: string; value: unknown }>;
-      cursor?: string;
-    };
+  const data = await response.json();
+  return parsePlaceWispSubfs(data.value);
+}
 
-    if (!data.records) {
-      break;
-    }
+/**
+ * Fetch every subfs record reachable from a site's root, following nested
+ * references. Returns the subtrees keyed by AT-URI, and the AT-URIs of the
+ * records that couldn't be fetched (deleted or unreachable), so the rest of
+ * the site can still load.
+ */
+async function fetchReferencedSubfsTrees(
+  pdsUrl: string,
+  did: string,
+  root: WispDirectoryNew
+): Promise<{ trees: Map<string, WispDirectoryNew | WispDirectory>; missing: string[] }> {
+  const trees = new Map<string, WispDirectoryNew | WispDirectory>();
+  const missing: string[] = [];
+  let pending = collectSubfsUris(root);
+
+  while (pending.length > 0) {
+    const batch = [...new Set(pending)].filter((uri) => !trees.has(uri) && !missing.includes(uri));
+    pending = [];
+
+    const results = await Promise.allSettled(
+      batch.map(async (uri) => {
+        const ref = parseAtUri(uri);
+        if (ref.did !== did || ref.collection !== 'place.wisp.subfs') {
+          logger.warn(`Skipping subfs reference outside this repo: ${uri}`);
+          return;
+        }
 
-    for (const record of data.records) {
-      const rkey = record.uri.split('/').pop() || '';
-      records.push({ rkey, value: record.value });
-    }
+        const record = await withRetry(() => fetchWispSubfsRecord(pdsUrl, did, ref.rkey));
+        const tree = record.root ?? record.directory;
+        if (!tree) {
+          return;
+        }
 
-    cursor = data.cursor;
-  } while (cursor);
+        trees.set(uri, tree);
+        if ('type' in tree) {
+          pending.push(...collectSubfsUris(tree as WispDirectoryNew));
+        }
+      })
+    );
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        logger.warn(`Could not fetch subfs record ${batch[i]}: ${reason}`);
+        missing.push(batch[i]);
+      }
+    });
+  }
 
-  logger.debug(`Fetched ${records.length} place.wisp.subfs records`);
-  return records;
+  return { trees, missing };
 }
 
 /**
@@ -384,39 +565,74 @@ export async function fetchWispSiteManifest(
     return null;
   }
 
-  // Import conversion function
-  const { convertDirectoryNewToOld, mergeDirectories } = await import('../types/lexicon');
-
-  // Convert new format to old format if needed
+  // Old format trees carry no subfs references
   const rootAsAny = parsed.root as any;
   const isNewFormat = rootAsAny && 'type' in rootAsAny && 'entries' in rootAsAny;
-  const rootDir = isNewFormat ? convertDirectoryNewToOld(rootAsAny) : (parsed.root as WispDirectory);
+  if (!isNewFormat) {
+    return parsed.root as WispDirectory;
+  }
 
-  // Fetch related subfs records (for large sites)
-  const subfsRecords = await fetchWispSubfsRecords(pdsUrl, did);
+  // Fetch the subfs records this site references (for large sites) and
+  // splice each one in at its mount point
+  const { trees: subfsTrees, missing } = await fetchReferencedSubfsTrees(
+    pdsUrl,
+    did,
+    rootAsAny as WispDirectoryNew
+  );
+  const merged = convertDirectoryNewToOld(rootAsAny, subfsTrees);
+
+  if (missing.length > 0) {
+    logger.warn(
+      `Site '${siteRkey}' is missing the files of ${missing.length} subfs record(s): ${missing.join(', ')}`
+    );
+  }
 
-  // Build directories array (all should be old format)
-  const directories: WispDirectory[] = [rootDir];
+  logger.debug(`Fetched manifest for site '${siteRkey}' with ${subfsTrees.size} subfs records`);
+  return merged;
+}
 
-  for (const { value } of subfsRecords) {
-    const subfs = value as PlaceWispSubfsRecord;
+/**
+ * Fetch the place.wisp.settings record for a site
+ * Returns null when the site has no settings record.
+ */
+export async function fetchWispSiteSettings(
+  pdsUrl: string,
+  did: string,
+  siteRkey: string
+): Promise<WispSiteSettings | null> {
+  const url = new URL(`${pdsUrl}/xrpc/com.atproto.repo.getRecord`);
+  url.searchParams.set('repo', did);
+  url.searchParams.set('collection', 'place.wisp.settings');
+  url.searchParams.set('rkey', siteRkey);
 
-    // Check if directory is new format (has 'type' and 'entries')
-    const dir = subfs.directory as any;
-    const isNewFormat = dir && 'type' in dir && 'entries' in dir;
+  logger.debug(`Fetching wisp.settings record for site: ${siteRkey}`);
 
-    const subfsDir = isNewFormat
-      ? convertDirectoryNewToOld(dir)
-      : subfs.directory as WispDirectory;
+  const response = await fetch(url.toString());
+
+  // PDSes answer a missing record with 400 RecordNotFound (some with a plain 404)
+  if (response.status === 404) {
+    logger.debug(`No wisp.settings record for site: ${siteRkey}`);
+    return null;
+  }
 
-    directories.push(subfsDir);
+  if (response.status === 400) {
+    const body = (await response.json().catch(() => null)) as { error?: string; message?: string } | null;
+    if (body?.error === 'RecordNotFound') {
+      logger.debug(`No wisp.settings record for site: ${siteRkey}`);
+      return null;
+    }
+    throw new Error(
+      `Failed to fetch settings for site '${siteRkey}': ${body?.error ?? (response.statusText || response.status)}` +
+        (body?.message ? ` (${body.message})` : '')
+    );
   }
 
-  // Merge directories
-  const merged = mergeDirectories(...directories);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch settings for site '${siteRkey}': ${response.statusText}`);
+  }
 
-  logger.debug(`Fetched manifest for site '${siteRkey}' with ${directories.length} directory records`);
-  return merged;
+  const data = await response.json();
+  return parsePlaceWispSettings(data.value);
 }
 
 /**
@@ -0,0 +1,149 @@
+/**
+ * did:web resolution
+ *
+ * Implements the did:web method spec (https://w3c-ccg.github.io/did-method-web/):
+ * - did:web:example.com            → https://example.com/.well-known/did.json
+ * - did:web:example.com%3A8443     → https://example.com:8443/.well-known/did.json
+ * - did:web:example.com:user:alice → https://example.com/user/alice/did.json
+ * - did:web:localhost%3A3000       → http://localhost:3000/.well-known/did.json
+ */
+
+import { createLogger } from './logger';
+import { ResolutionError, type DidDocument } from '../types/atproto';
+
+const logger = createLogger({ prefix: 'did-web' });
+
+const DID_WEB_PREFIX = 'did:web:';
+
+/**
+ * Parsed components of a did:web identifier
+ */
+export interface ParsedDidWeb {
+  did: string;
+  host: string;
+  port?: number;
+  path: string[];
+  documentUrl: string;
+}
+
+/**
+ * Hosts that are allowed to serve DID documents over plain http (development)
+ */
+function isLocalHost(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host === '127.0.0.1' ||
+    host === '[::1]'
+  );
+}
+
+function decodeSegment(did: string, segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ResolutionError(`Invalid percent-encoding '${segment}' in '${did}'`, 'did-web-encoding');
+  }
+}
+
+/**
+ * Parse a did:web identifier into its host, port and path segments
+ */
+export function parseDidWeb(did: string): ParsedDidWeb {
+  if (!did.startsWith(DID_WEB_PREFIX)) {
+    throw new ResolutionError(`Not a did:web: ${did}`, 'did-web-method');
+  }
+
+  const methodSpecificId = did.slice(DID_WEB_PREFIX.length);
+  if (!methodSpecificId) {
+    throw new ResolutionError(`did:web identifier is empty: '${did}'`, 'did-web-empty');
+  }
+
+  // Segments are separated by ':'; a port must be percent-encoded as %3A
+  const [hostSegment, ...pathSegments] = methodSpecificId.split(':');
+  const authority = decodeSegment(did, hostSegment).toLowerCase();
+
+  const authorityMatch = authority.match(/^(\[[0-9a-f:.]+\]|[a-z0-9.-]+)(?::(\d+))?$/);
+  if (!authorityMatch) {
+    throw new ResolutionError(`Invalid host '${authority}' in '${did}'`, 'did-web-host');
+  }
+
+  const host = authorityMatch[1];
+  if (!host.startsWith('[') && (host.startsWith('.') || host.endsWith('.') || host.includes('..'))) {
+    throw new ResolutionError(`Invalid host '${host}' in '${did}'`, 'did-web-host');
+  }
+
+  let port: number | undefined;
+  if (authorityMatch[2] !== undefined) {
+    port = Number(authorityMatch[2]);
+    if (port < 1 || port > 65535) {
+      throw new ResolutionError(`Invalid port '${authorityMatch[2]}' in '${did}'`, 'did-web-port');
+    }
+  }
+
+  const path = pathSegments.map((segment) => {
+    const decoded = decodeSegment(did, segment);
+    if (!decoded) {
+      throw new ResolutionError(`Empty path segment in '${did}'`, 'did-web-path');
+    }
+    if (decoded === '.' || decoded === '..' || decoded.includes('/')) {
+      throw new ResolutionError(
+        `Invalid path segment '${decoded}' in '${did}' (separate path segments with ':')`,
+        'did-web-path'
+      );
+    }
+    return decoded;
+  });
+
+  const scheme = isLocalHost(host) ? 'http' : 'https';
+  const origin = `${scheme}://${host}${port !== undefined ? `:${port}` : ''}`;
+  const documentPath = path.length > 0
+    ? `/${path.map(encodeURIComponent).join('/')}/did.json`
+    : '/.well-known/did.json';
+
+  return {
+    did,
+    host,
+    port,
+    path,
+    documentUrl: `${origin}${documentPath}`,
+  };
+}
+
+/**
+ * Fetch and validate the DID document for a did:web identifier
+ */
+export async function resolveDidWeb(did: string): Promise<DidDocument> {
+  const { documentUrl } = parseDidWeb(did);
+
+  logger.debug(`Fetching did:web document from: ${documentUrl}`);
+
+  // Network failures stay TypeErrors so withRetry retries them
+  const response = await fetch(documentUrl);
+
+  if (!response.ok) {
+    throw new ResolutionError(
+      `Failed to fetch did:web document from '${documentUrl}': ${response.status} ${response.statusText}`,
+      'did-web-http'
+    );
+  }
+
+  let didDocument: DidDocument;
+  try {
+    didDocument = (await response.json()) as DidDocument;
+  } catch {
+    throw new ResolutionError(`did:web document at '${documentUrl}' is not valid JSON`, 'did-web-json');
+  }
+
+  if (!didDocument || typeof didDocument !== 'object') {
+    throw new ResolutionError(`Invalid did:web document at '${documentUrl}'`, 'did-web-json');
+  }
+  if (didDocument.id !== did) {
+    throw new ResolutionError(
+      `did:web document at '${documentUrl}' has id '${didDocument.id}', expected '${did}'`,
+      'did-web-id-mismatch'
+    );
+  }
+
+  return didDocument;
+}
@@ -0,0 +1,147 @@
+/**
+ * PLC audit log utilities
+ *
+ * Turns the raw operation list from the PLC directory into a timeline of
+ * human-readable changes (handle changes, PDS moves, key rotations).
+ */
+
+import type { PlcAuditEntry } from '../types/atproto';
+
+/**
+ * Identity state described by a single PLC operation
+ */
+interface PlcState {
+  handles: string[];
+  pds?: string;
+  rotationKeys: string[];
+  signingKey?: string;
+}
+
+export type PlcChangeKind =
+  | 'created'
+  | 'handle'
+  | 'pds'
+  | 'rotation-keys'
+  | 'signing-key'
+  | 'tombstone';
+
+/**
+ * A single change introduced by an operation
+ */
+export interface PlcChange {
+  kind: PlcChangeKind;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Audit log entry annotated with the changes it introduced
+ */
+export interface PlcTimelineEntry {
+  cid: string;
+  createdAt: string;
+  nullified: boolean;
+  changes: PlcChange[];
+}
+
+/**
+ * Extract identity state from an operation (null for tombstones)
+ */
+function getOperationState(entry: PlcAuditEntry): PlcState | null {
+  const op = entry.operation;
+
+  if (op.type === 'plc_tombstone') {
+    return null;
+  }
+
+  if (op.type === 'create') {
+    return {
+      handles: [op.handle],
+      pds: op.service,
+      rotationKeys: [op.recoveryKey, op.signingKey],
+      signingKey: op.signingKey,
+    };
+  }
+
+  return {
+    handles: op.alsoKnownAs
+      .filter((aka) => aka.startsWith('at://'))
+      .map((aka) => aka.slice('at://'.length)),
+    pds: op.services?.atproto_pds?.endpoint,
+    rotationKeys: op.rotationKeys ?? [],
+    signingKey: op.verificationMethods?.atproto,
+  };
+}
+
+function formatList(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : '(none)';
+}
+
+/**
+ * Describe what changed between two identity states
+ */
+function diffStates(prev: PlcState | null, next: PlcState | null): PlcChange[] {
+  if (!next) {
+    return [{ kind: 'tombstone' }];
+  }
+
+  if (!prev) {
+    return [
+      { kind: 'created', to: next.handles[0] },
+      ...(next.pds ? [{ kind: 'pds' as const, to: next.pds }] : []),
+    ];
+  }
+
+  const changes: PlcChange[] = [];
+
+  if (formatList(prev.handles) !== formatList(next.handles)) {
+    changes.push({ kind: 'handle', from: formatList(prev.handles), to: formatList(next.handles) });
+  }
+  if (prev.pds !== next.pds) {
+    changes.push({ kind: 'pds', from: prev.pds, to: next.pds });
+  }
+  if (formatList(prev.rotationKeys) !== formatList(next.rotationKeys)) {
+    changes.push({
+      kind: 'rotation-keys',
+      from: formatList(prev.rotationKeys),
+      to: formatList(next.rotationKeys),
+    });
+  }
+  if (prev.signingKey !== next.signingKey) {
+    changes.push({ kind: 'signing-key', from: prev.signingKey, to: next.signingKey });
+  }
+
+  return changes;
+}
+
+/**
+ * Build a timeline of changes from a PLC audit log (oldest first)
+ *
+ * Nullified operations are diffed against the last valid state but do not
+ * become the new baseline, since the directory discarded them.
+ */
+export function buildPlcTimeline(entries: PlcAuditEntry[]): PlcTimelineEntry[] {
+  const timeline: PlcTimelineEntry[] = [];
+  let current: PlcState | null = null;
+
+  // The directory lists operations oldest first already; ISO timestamps sort as strings
+  const ordered = [...entries].sort((a, b) =>
+    a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0
+  );
+
+  for (const entry of ordered) {
+    const state = getOperationState(entry);
+    timeline.push({
+      cid: entry.cid,
+      createdAt: entry.createdAt,
+      nullified: entry.nullified,
+      changes: diffStates(current, state),
+    });
+
+    if (!entry.nullified) {
+      current = state;
+    }
+  }
+
+  return timeline;
+}
@@ -0,0 +1,187 @@
+/**
+ * Sandbox origin for site content
+ *
+ * When VITE_SANDBOX_ORIGIN is set (for example http://sites.localhost:5173 or
+ * http://localhost:5174), sites are served by a service worker on that origin
+ * and shown in a sandboxed iframe. Their scripts then can't reach the
+ * explorer's storage or its service worker.
+ *
+ * The explorer and the sandbox talk over postMessage, and each side checks
+ * the other's origin. The sandbox learns the explorer's from VITE_EXPLORER_ORIGIN
+ * at build time, never from the page that frames it.
+ * 1. The iframe loads /sandbox.html on the sandbox origin, which registers the
+ *    sandbox's service worker and posts WISP_SANDBOX_READY
+ * 2. The explorer answers with WISP_LOAD_SITE (the manifest and serving options)
+ * 3. The sandbox hands the manifest to its service worker, posts WISP_SITE_LOADED
+ *    and navigates itself to the site
+ * 4. Pages served in the sandbox post WISP_LOCATION as the visitor moves around,
+ *    and answer WISP_GET_PRIVACY_REPORT when the site is in privacy mode
+ *
+ * Privacy reports pass through the site's own window on the way back, so the
+ * service worker signs each one with the reportKey sent in WISP_LOAD_SITE and
+ * the explorer drops any report whose signature or nonce doesn't check out.
+ */
+
+import type { PrivacyReport, SiteInfo, SiteOptions } from './serviceWorker';
+import type { WispDirectory } from '../types/lexicon';
+
+/**
+ * Permissions for the site iframe. allow-same-origin applies to the sandbox
+ * origin (its service worker needs it), never to the explorer's.
+ */
+export const SANDBOX_IFRAME_PERMISSIONS = [
+  'allow-scripts',
+  'allow-same-origin',
+  'allow-forms',
+  'allow-modals',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-downloads',
+].join(' ');
+
+export interface SandboxLoadSiteMessage {
+  type: 'WISP_LOAD_SITE';
+  manifest: WispDirectory;
+  pdsUrl: string;
+  did: string;
+  handle: string;
+  siteName: string;
+  spaMode: NonNullable<SiteOptions['spaMode']>;
+  settings: SiteOptions['settings'];
+  safeMode?: boolean;
+  privacyMode?: SiteOptions['privacyMode'];
+  reportKey: string;
+  path: string;
+}
+
+export type SandboxMessage =
+  | { type: 'WISP_SANDBOX_READY' }
+  | { type: 'WISP_SITE_LOADED'; siteInfo: SiteInfo | null }
+  | { type: 'WISP_SANDBOX_ERROR'; error: string }
+  | { type: 'WISP_LOCATION'; path: string }
+  | { type: 'WISP_PRIVACY_REPORT'; payload: string | null; signature: string | null };
+
+/**
+ * The configured sandbox origin, or null when sites are served same-origin
+ */
+export function getSandboxOrigin(): string | null {
+  const configured = import.meta.env.VITE_SANDBOX_ORIGIN;
+  if (!configured) {
+    return null;
+  }
+
+  try {
+    const origin = new URL(configured).origin;
+    // Pointing the sandbox at the explorer itself would isolate nothing
+    return origin === window.location.origin ? null : origin;
+  } catch {
+    console.warn('[Sandbox] Ignoring invalid VITE_SANDBOX_ORIGIN:', configured);
+    return null;
+  }
+}
+
+/**
+ * The explorer origin the sandbox was built to accept sites from, or null if unset
+ */
+export function getExplorerOrigin(): string | null {
+  const configured = import.meta.env.VITE_EXPLORER_ORIGIN;
+  if (!configured) {
+    return null;
+  }
+
+  try {
+    return new URL(configured).origin;
+  } catch {
+    console.warn('[Sandbox] Ignoring invalid VITE_EXPLORER_ORIGIN:', configured);
+    return null;
+  }
+}
+
+/**
+ * Whether sites are served from the sandbox origin
+ */
+export function isSandboxEnabled(): boolean {
+  return getSandboxOrigin() !== null;
+}
+
+/**
+ * URL of the sandbox's bootstrap page
+ */
+export function getSandboxFrameUrl(sandboxOrigin: string): string {
+  return `${sandboxOrigin}/sandbox.html`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * A random key for the sandbox's service worker to sign privacy reports with
+ */
+export function createReportKey(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * A random nonce for one privacy report request
+ */
+export function createReportNonce(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Check a relayed privacy report against its signature and the nonce it was requested with
+ * Returns the report, or null if it wasn't signed with our key for this request.
+ */
+export async function verifyPrivacyReport(
+  reportKey: string,
+  nonce: string,
+  payload: unknown,
+  signature: unknown
+): Promise<PrivacyReport | null> {
+  if (typeof payload !== 'string' || typeof signature !== 'string') {
+    return null;
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      fromBase64(reportKey),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64(signature), new TextEncoder().encode(payload));
+    if (!valid) {
+      return null;
+    }
+
+    const parsed = JSON.parse(payload) as { nonce?: unknown; report?: PrivacyReport };
+    return parsed.nonce === nonce && parsed.report ? parsed.report : null;
+  } catch {
+    // Not base64, or not JSON
+    return null;
+  }
+}
+
+/**
+ * Remove a service worker left on the explorer's origin from before the sandbox
+ * was configured, so it can't keep serving sites next to the explorer
+ */
+export async function unregisterExplorerServiceWorkers(): Promise<void> {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  const registrations = await navigator.serviceWorker.getRegistrations();
+  await Promise.all(
+    registrations.map((registration) => {
+      console.log('[Sandbox] Unregistering explorer service worker:', registration.scope);
+      return registration.unregister();
+    })
+  );
+}
@@ -4,18 +4,95 @@
  * Handles registration, messaging, and state management for the wisp service worker.
  */
 
+import type { WispSiteSettings } from '../types/lexicon';
+
 type MessageHandler = (data: any) => void;
 
+/**
+ * SPA fallback mode: 'auto' lets the service worker detect client-routed sites
+ */
+export type SpaMode = 'auto' | 'on' | 'off';
+
+/**
+ * Privacy mode: what happens to requests a site's pages make to other origins
+ */
+export type PrivacyMode = 'off' | 'log' | 'block';
+
+/**
+ * Per-site serving options chosen in the resolver
+ */
+export interface SiteOptions {
+  spaMode?: SpaMode;
+  settings?: WispSiteSettings | null; // The site's place.wisp.settings record
+  safeMode?: boolean; // Block the site's scripts with a CSP; unset keeps the site's last choice
+  privacyMode?: PrivacyMode; // Unset keeps the site's last choice
+}
+
 export interface SiteInfo {
   pdsUrl: string;
   did: string;
   handle: string;
   siteName: string;
+  spaFallback?: boolean;
+  safeMode?: boolean;
+  privacyMode?: PrivacyMode;
+  settings?: WispSiteSettings;
+}
+
+/**
+ * Origins a page contacted, from the service worker's privacy mode
+ */
+export interface PrivacyReport {
+  pageUrl: string | null;
+  mode: PrivacyMode;
+  origins: { origin: string; requests: number; blocked: number }[];
 }
 
 export interface SWStatus {
   hasManifest: boolean;
   siteInfo: SiteInfo | null;
+  sites: SiteInfo[]; // Every site currently loaded in the service worker
+}
+
+/**
+ * Limits for the service worker's blob cache
+ */
+export interface CacheBudget {
+  maxBytes: number; // Upper bound for cached blobs
+  quotaFraction: number; // Share of the storage quota that usage may reach before evicting
+}
+
+export interface SiteCacheUsage {
+  did: string;
+  siteName: string;
+  loaded: boolean; // Whether the site is currently loaded in the service worker
+  pinning: boolean; // Whether the site is being saved for offline use right now
+  blobCount: number;
+  bytes: number;
+  pinnedBlobCount: number;
+  siteBlobCount?: number; // Distinct blobs in the site's manifest (loaded sites only)
+}
+
+export interface CacheStats {
+  blobCount: number;
+  totalBytes: number;
+  pinnedBytes: number; // Pinned blobs are never evicted
+  budget: CacheBudget;
+  storage: { usage: number; quota: number } | null; // navigator.storage.estimate(), when available
+  evicted: { blobs: number; bytes: number }; // Since the service worker started
+  sites: SiteCacheUsage[]; // Blobs shared between sites count toward each of them
+}
+
+export interface PinProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface PinResult {
+  success: boolean;
+  failed: string[]; // Paths whose blobs couldn't be downloaded
+  error?: string;
 }
 
 export class ServiceWorkerManager {
@@ -145,9 +222,17 @@ export class ServiceWorkerManager {
   }
 
   /**
-   * Set the manifest in the service worker
+   * Add a site's manifest to the service worker
+   * Other loaded sites are kept; loading the same did/siteName again replaces it.
    */
-  async setManifest(manifest: any, pdsUrl: string, did: string, handle?: string, siteName?: string): Promise<boolean> {
+  async setManifest(
+    manifest: any,
+    pdsUrl: string,
+    did: string,
+    handle?: string,
+    siteName?: string,
+    options: SiteOptions = {}
+  ): Promise<boolean> {
     try {
       const response = await this.sendMessage({
         type: 'SET_MANIFEST',
@@ -156,6 +241,10 @@ export class ServiceWorkerManager {
         did,
         handle,
         siteName,
+        spaMode: options.spaMode ?? 'auto',
+        settings: options.settings ?? null,
+        safeMode: options.safeMode,
+        privacyMode: options.privacyMode,
       });
 
       if (response?.success) {
@@ -171,11 +260,11 @@ export class ServiceWorkerManager {
   }
 
   /**
-   * Clear the manifest from the service worker
+   * Clear a site's manifest from the service worker, or every site when none is given
    */
-  async clearManifest(): Promise<boolean> {
+  async clearManifest(did?: string, siteName?: string): Promise<boolean> {
     try {
-      const response = await this.sendMessage({ type: 'CLEAR_MANIFEST' });
+      const response = await this.sendMessage({ type: 'CLEAR_MANIFEST', did, siteName });
       return response?.success || false;
     } catch (error) {
       console.error('[SW Manager] Failed to clear manifest:', error);
@@ -184,11 +273,11 @@ export class ServiceWorkerManager {
   }
 
   /**
-   * Clear the blob cache
+   * Clear the blob cache, or only a site's blobs when did/siteName are given
    */
-  async clearCache(): Promise<boolean> {
+  async clearCache(did?: string, siteName?: string): Promise<boolean> {
     try {
-      const response = await this.sendMessage({ type: 'CLEAR_CACHE' });
+      const response = await this.sendMessage({ type: 'CLEAR_CACHE', did, siteName });
       return response?.success || false;
     } catch (error) {
       console.error('[SW Manager] Failed to clear cache:', error);
@@ -196,21 +285,100 @@ export class ServiceWorkerManager {
     }
   }
 
+  /**
+   * Download every file of a loaded site and pin it in the cache for offline use
+   * Progress is reported as files finish; there is no timeout since large sites take a while.
+   */
+  async pinSite(
+    did: string,
+    siteName: string,
+    onProgress?: (progress: PinProgress) => void
+  ): Promise<PinResult> {
+    const controller = navigator.serviceWorker.controller;
+
+    if (!this.ready || !controller) {
+      throw new Error('Service worker not ready');
+    }
+
+    return new Promise((resolve) => {
+      const channel = new MessageChannel();
+
+      channel.port1.onmessage = (event) => {
+        if (event.data.type === 'PIN_PROGRESS') {
+          const { done, total, failed } = event.data;
+          onProgress?.({ done, total, failed });
+          return;
+        }
+
+        channel.port1.close();
+        resolve({
+          success: !!event.data.success,
+          failed: event.data.failed || [],
+          error: event.data.error,
+        });
+      };
+
+      controller.postMessage({ type: 'PIN_SITE', did, siteName }, [channel.port2]);
+    });
+  }
+
+  /**
+   * Unpin a site so its cached blobs can be evicted again
+   */
+  async unpinSite(did: string, siteName: string): Promise<boolean> {
+    try {
+      const response = await this.sendMessage({ type: 'UNPIN_SITE', did, siteName });
+      return response?.success || false;
+    } catch (error) {
+      console.error('[SW Manager] Failed to unpin site:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get blob cache usage statistics
+   */
+  async getCacheStats(): Promise<CacheStats | null> {
+    try {
+      const response = await this.sendMessage({ type: 'GET_CACHE_STATS' });
+      return response?.stats || null;
+    } catch (error) {
+      console.error('[SW Manager] Failed to get cache stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Change the blob cache budget; the service worker evicts right away if needed
+   */
+  async setCacheBudget(budget: Partial<CacheBudget>): Promise<CacheBudget | null> {
+    try {
+      const response = await this.sendMessage({ type: 'SET_CACHE_BUDGET', budget });
+      return response?.budget || null;
+    } catch (error) {
+      console.error('[SW Manager] Failed to set cache budget:', error);
+      return null;
+    }
+  }
+
   /**
    * Get the current status of the service worker
+   * With did/siteName, hasManifest reports whether that site is loaded.
    */
-  async getStatus(): Promise<SWStatus> {
+  async getStatus(did?: string, siteName?: string): Promise<SWStatus> {
     try {
-      const response = await this.sendMessage({ type: 'GET_STATUS' });
+      const response = await this.sendMessage({ type: 'GET_STATUS', did, siteName });
       return {
         hasManifest: response?.hasManifest || false,
         siteInfo: response?.siteInfo || null,
+        sites: response?.sites || [],
       };
     } catch (error) {
       console.error('[SW Manager] Failed to get status:', error);
       return {
         hasManifest: false,
         siteInfo: null,
+        sites: [],
       };
     }
   }
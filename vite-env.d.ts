@@ -3,7 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_PROXY_URL?: string;
   readonly VITE_PLC_DIRECTORY?: string;
+  readonly VITE_DOH_URL?: string;
   readonly VITE_DEBUG?: string;
+  readonly VITE_SANDBOX_ORIGIN?: string;
+  readonly VITE_EXPLORER_ORIGIN?: string;
 }
 
 interface ImportMeta {
@@ -26,6 +26,11 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
     rollupOptions: {
+      // sandbox.html is an entry of its own so Vite fills in VITE_EXPLORER_ORIGIN
+      input: {
+        index: path.resolve(__dirname, 'index.html'),
+        sandbox: path.resolve(__dirname, 'sandbox.html'),
+      },
       output: {
         manualChunks: {
           'atproto-vendor': ['@atproto/api'],